@@ -0,0 +1,109 @@
+import { Backend, ToolModule, ToolResult } from './types.js';
+import { configuredFlag, configuredValue } from './config.js';
+import { CancelledError, CapabilityUnavailableError } from './errors.js';
+import { initVips } from './vips.js';
+import { log } from './logger.js';
+
+// Value of the per-call `backend` argument: 'auto' tries wasm-vips and falls
+// back to Sharp, 'sharp' and 'vips' run only that engine
+export type BackendChoice = 'auto' | 'sharp' | 'vips';
+
+export const BACKEND_CHOICES: BackendChoice[] = ['auto', 'sharp', 'vips'];
+
+// An image processing engine a tool can run on
+export interface ImageBackend {
+  name: Backend;
+  // Prepare the engine before the first call; throws when it is unavailable
+  init(): Promise<void>;
+}
+
+export const sharpBackend: ImageBackend = {
+  name: 'sharp',
+  async init() {}
+};
+
+export const vipsBackend: ImageBackend = {
+  name: 'wasm-vips',
+  async init() {
+    await initVips();
+  }
+};
+
+// Implementations of one tool call, one per engine it supports
+export interface BackendImplementations {
+  // Operation name used in errors, e.g. 'Perspective transform'
+  capability: string;
+  vips: () => Promise<ToolResult>;
+  sharp: () => Promise<ToolResult>;
+  // What the Sharp implementation does instead, when it only approximates
+  // the operation. Strict mode refuses to return such results.
+  approximation?: string;
+}
+
+// Per-call options accepted by every tool with both implementations
+export interface BackendOptions {
+  backend?: BackendChoice;
+  strict?: boolean;
+}
+
+// Server-wide default, set with LIBVIPS_MCP_BACKEND or --backend
+export const DEFAULT_BACKEND = parseBackendChoice(configuredValue('LIBVIPS_MCP_BACKEND', '--backend') || 'auto');
+
+// Server-wide strict mode, set with LIBVIPS_MCP_STRICT=1 or --strict
+export const DEFAULT_STRICT = configuredFlag('LIBVIPS_MCP_STRICT', '--strict');
+
+function parseBackendChoice(value: string): BackendChoice {
+  if (!BACKEND_CHOICES.includes(value as BackendChoice)) {
+    throw new Error(`Invalid backend "${value}": expected one of ${BACKEND_CHOICES.join(', ')}`);
+  }
+  return value as BackendChoice;
+}
+
+// A server-wide "vips" backend refuses tools that only have a Sharp
+// implementation instead of quietly running them on Sharp
+export function assertBackendSupported(module: ToolModule): void {
+  if (DEFAULT_BACKEND === 'vips' && !module.vipsOperations && !module.imageFree) {
+    throw new CapabilityUnavailableError(module.definition.name, 'it has no wasm-vips implementation and the server backend is "vips"');
+  }
+}
+
+async function runOn(backend: ImageBackend, implementation: () => Promise<ToolResult>): Promise<ToolResult> {
+  await backend.init();
+  return implementation();
+}
+
+// Run a tool call on the requested engine. A forced engine's errors are
+// returned as-is; 'auto' falls back to Sharp and records why in the result.
+// In strict mode Sharp approximations are refused instead; a cancelled call
+// is never retried.
+export async function runWithBackend(options: BackendOptions, implementations: BackendImplementations): Promise<ToolResult> {
+  const strict = options.strict ?? DEFAULT_STRICT;
+  const { capability, approximation } = implementations;
+
+  switch (options.backend ?? DEFAULT_BACKEND) {
+    case 'sharp':
+      if (strict && approximation) {
+        throw new CapabilityUnavailableError(capability, `Sharp only approximates it (${approximation}) and strict mode is enabled`);
+      }
+      return runOn(sharpBackend, implementations.sharp);
+    case 'vips':
+      return runOn(vipsBackend, implementations.vips);
+    default:
+      try {
+        return await runOn(vipsBackend, implementations.vips);
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        if (strict && approximation) {
+          throw new CapabilityUnavailableError(capability, `wasm-vips failed (${reason}) and the Sharp fallback only approximates it (${approximation}); strict mode is enabled`);
+        }
+        log('warning', `⚠️ wasm-vips failed (${reason}), falling back to Sharp`);
+
+        const result = await runOn(sharpBackend, implementations.sharp);
+        result.structuredContent.fallback_reason = reason;
+        return result;
+      }
+  }
+}
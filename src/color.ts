@@ -0,0 +1,41 @@
+export type Lab = [number, number, number];
+
+// sRGB (D65) to CIE L*a*b* and back
+function srgbToLinear(value: number): number {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(value: number): number {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+const WHITE = [0.95047, 1, 1.08883];
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+const labInverse = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const [lr, lg, lb] = [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+  const x = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE[0]);
+  const y = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE[1]);
+  const z = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE[2]);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+export function labToRgb([l, a, b]: Lab): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const x = labInverse(fy + a / 500) * WHITE[0];
+  const y = labInverse(fy) * WHITE[1];
+  const z = labInverse(fy - b / 200) * WHITE[2];
+  return [
+    linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    linearToSrgb(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)
+  ];
+}
+
+// CIE L* (0-100) alone, for lightness histograms
+export function lightness(r: number, g: number, b: number): number {
+  return 116 * labF(0.2126729 * srgbToLinear(r) + 0.7151522 * srgbToLinear(g) + 0.072175 * srgbToLinear(b)) - 16;
+}
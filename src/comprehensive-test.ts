@@ -33,8 +33,10 @@ async function sendRequest(request: any): Promise<any> {
     server.on('close', (code: number | null) => {
       if (code === 0) {
         try {
-          const lines = response.trim().split('\n');
-          const jsonResponse = JSON.parse(lines[lines.length - 1]);
+          // Skip log notifications sent before the response
+          const jsonResponse = response.trim().split('\n')
+            .map(line => JSON.parse(line))
+            .find(message => 'result' in message || 'error' in message);
           resolve(jsonResponse);
         } catch (error) {
           reject(new Error(`Failed to parse response: ${error}\nRaw: ${response.substring(0, 500)}...`));
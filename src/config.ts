@@ -0,0 +1,21 @@
+// Server settings come from environment variables or the equivalent CLI flags,
+// e.g. LIBVIPS_MCP_READ_ONLY=1 or --read-only
+
+export function cliValues(flag: string): string[] {
+  const values: string[] = [];
+  process.argv.forEach((arg, i) => {
+    if (arg === flag && process.argv[i + 1]) values.push(process.argv[i + 1]);
+    else if (arg.startsWith(`${flag}=`)) values.push(arg.slice(flag.length + 1));
+  });
+  return values;
+}
+
+// A single-valued setting; the CLI flag wins over the environment variable
+export function configuredValue(envName: string, flag: string): string | undefined {
+  return cliValues(flag).pop() ?? process.env[envName];
+}
+
+export function configuredFlag(envName: string, flag: string): boolean {
+  const value = process.env[envName];
+  return process.argv.includes(flag) || value === '1' || value === 'true';
+}
@@ -0,0 +1,24 @@
+// Errors with a machine-readable code, reported to clients as
+// "Error [code]: message" so they can be told apart from ordinary failures
+export class ToolError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Raised in strict mode when the requested operation cannot run natively and
+// the only available implementation is an approximation
+export class CapabilityUnavailableError extends ToolError {
+  constructor(public readonly capability: string, reason: string) {
+    super('capability_unavailable', `${capability} is unavailable: ${reason}`);
+  }
+}
+
+// Raised at a checkpoint once the client has cancelled the request with
+// notifications/cancelled
+export class CancelledError extends ToolError {
+  constructor() {
+    super('cancelled', 'Request cancelled by the client');
+  }
+}
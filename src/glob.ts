@@ -0,0 +1,114 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import { isImageFile } from './resources.js';
+import { assertReadable, isReadable } from './sandbox.js';
+
+// Image files selected by a directory or glob pattern. `*`, `?` and `[...]`
+// match within one path segment, `**` matches any number of directories and
+// `{a,b}` matches either alternative.
+export interface GlobMatch {
+  // Directory the pattern is relative to: the directory itself, or the
+  // pattern's leading segments without wildcards
+  base: string;
+  files: string[];
+}
+
+const WILDCARD = /[*?[{]/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|\\\]]/g, '\\$&');
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      const set = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      i = end;
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i + 1);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string, depth: number, accept: (file: string) => boolean, found: string[], limit: number): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (found.length > limit) return;
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory() && depth > 1 && isReadable(entryPath)) {
+      walk(entryPath, depth - 1, accept, found, limit);
+    } else if (entry.isFile() && accept(entryPath)) {
+      found.push(entryPath);
+    }
+  }
+}
+
+// Expand a directory (its images, not recursive) or a glob pattern. The base
+// directory must lie within the read roots, and anything outside them below it
+// is skipped; more than `limit` matches is an error.
+export function expandGlob(pattern: string, limit: number): GlobMatch {
+  const normalized = pattern.replace(/\\/g, '/');
+  let base: string;
+  let matcher: RegExp | undefined;
+  let depth = 1;
+
+  if (!WILDCARD.test(normalized)) {
+    assertReadable(pattern);
+    if (!existsSync(pattern) || !statSync(pattern).isDirectory()) {
+      throw new Error(`Not a directory or glob pattern: ${pattern}`);
+    }
+    base = pattern;
+  } else {
+    const segments = normalized.split('/');
+    const firstWildcard = segments.findIndex(segment => WILDCARD.test(segment));
+    const rest = segments.slice(firstWildcard);
+    base = segments.slice(0, firstWildcard).join('/') || (normalized.startsWith('/') ? '/' : '.');
+    matcher = globToRegExp(rest.join('/'));
+    depth = rest.some(segment => segment.includes('**')) ? Infinity : rest.length;
+
+    // Checked before probing, so the error reveals nothing outside the roots
+    assertReadable(base);
+    if (!existsSync(base) || !statSync(base).isDirectory()) {
+      throw new Error(`Directory not found: ${base}`);
+    }
+  }
+
+  const accept = (file: string) =>
+    (!matcher || matcher.test(relative(base, file).split('\\').join('/'))) && isImageFile(file) && isReadable(file);
+
+  const files: string[] = [];
+  walk(base, depth, accept, files, limit);
+  if (files.length > limit) {
+    throw new Error(`${pattern} matches more than ${limit} files`);
+  }
+  files.sort();
+  return { base, files };
+}
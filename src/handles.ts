@@ -0,0 +1,90 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { activeSession } from './session.js';
+
+// In-memory image handles (img://N) shared across the tool calls of a session.
+// The memory budget is shared by all sessions, but each session only sees its
+// own handles.
+const HANDLE_PREFIX = 'img://';
+const MEMORY_BUDGET = Number(process.env.LIBVIPS_MCP_MEMORY_MB || 512) * 1024 * 1024;
+
+export interface StoredImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+interface StoreEntry {
+  image: StoredImage;
+  session?: Server;
+}
+
+// Map iteration order doubles as LRU order: entries are re-inserted on access
+const imageStore = new Map<string, StoreEntry>();
+let nextHandleId = 1;
+let storedBytes = 0;
+
+export function isHandle(ref: string): boolean {
+  return typeof ref === 'string' && ref.startsWith(HANDLE_PREFIX);
+}
+
+export function storeImage(image: StoredImage): string {
+  if (image.data.length > MEMORY_BUDGET) {
+    throw new Error(`Image (${image.data.length} bytes) exceeds the in-memory budget of ${MEMORY_BUDGET} bytes; pass output_path to write it to disk`);
+  }
+
+  // Evict least recently used handles until the new image fits
+  for (const handle of imageStore.keys()) {
+    if (storedBytes + image.data.length <= MEMORY_BUDGET) break;
+    removeEntry(handle);
+  }
+
+  const handle = `${HANDLE_PREFIX}${nextHandleId++}`;
+  imageStore.set(handle, { image, session: activeSession() });
+  storedBytes += image.data.length;
+  return handle;
+}
+
+// The entry of a handle, if it belongs to the active session
+function sessionEntry(handle: string): StoreEntry | undefined {
+  const entry = imageStore.get(handle);
+  return entry && entry.session === activeSession() ? entry : undefined;
+}
+
+function removeEntry(handle: string): void {
+  const entry = imageStore.get(handle);
+  if (!entry) return;
+  imageStore.delete(handle);
+  storedBytes -= entry.image.data.length;
+}
+
+export function getStoredImage(handle: string): StoredImage {
+  const entry = sessionEntry(handle);
+  if (!entry) {
+    throw new Error(`Image handle not found (released or evicted): ${handle}`);
+  }
+  imageStore.delete(handle);
+  imageStore.set(handle, entry);
+  return entry.image;
+}
+
+export function releaseImage(handle: string): boolean {
+  if (!sessionEntry(handle)) return false;
+  removeEntry(handle);
+  return true;
+}
+
+export function hasStoredImage(handle: string): boolean {
+  return sessionEntry(handle) !== undefined;
+}
+
+export function storedHandles(): string[] {
+  return [...imageStore.keys()].filter(handle => sessionEntry(handle));
+}
+
+// Free every handle of a session once it has ended
+export function releaseSessionImages(session: Server): void {
+  for (const [handle, entry] of imageStore) {
+    if (entry.session === session) removeEntry(handle);
+  }
+}
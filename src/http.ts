@@ -0,0 +1,190 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server.js';
+import { configuredValue } from './config.js';
+import { log } from './logger.js';
+
+// HTTP transport: Streamable HTTP on /mcp, with the older HTTP+SSE transport
+// (GET /sse, POST /messages) as a fallback for clients that predate it. Each
+// session is served by its own MCP server, so per-client state stays apart.
+const HOST = configuredValue('LIBVIPS_MCP_HOST', '--host') || '127.0.0.1';
+const PORT = Number(configuredValue('LIBVIPS_MCP_PORT', '--port') || 3000);
+const AUTH_TOKEN = configuredValue('LIBVIPS_MCP_AUTH_TOKEN', '--auth-token');
+
+// Request bodies may carry inline base64 images
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+// Streamable HTTP sessions normally end with a DELETE request, which a client
+// that disappears never sends, so they are closed after this many seconds
+// without requests (0 disables it). SSE sessions end with their stream.
+const SESSION_TIMEOUT_MS = Number(configuredValue('LIBVIPS_MCP_SESSION_TIMEOUT', '--session-timeout') ?? 1800) * 1000;
+
+const sessions = new Map<string, StreamableHTTPServerTransport | SSEServerTransport>();
+
+// Open requests (including GET streams) and time of the last one finishing,
+// per Streamable HTTP session
+interface SessionActivity {
+  open: number;
+  lastSeen: number;
+}
+
+const activity = new Map<string, SessionActivity>();
+
+function trackRequest(sessionId: string, res: ServerResponse): void {
+  const entry = activity.get(sessionId);
+  if (!entry) return;
+
+  entry.open++;
+  res.on('close', () => {
+    entry.open--;
+    entry.lastSeen = Date.now();
+  });
+}
+
+// Closing the transport also closes its MCP server, which frees the
+// session's handles and subscriptions
+function closeIdleSessions(): void {
+  const now = Date.now();
+  for (const [sessionId, { open, lastSeen }] of activity) {
+    if (open === 0 && now - lastSeen >= SESSION_TIMEOUT_MS) {
+      // Outside a tool call this goes to every client, so leave the ID out
+      log('info', `Closing a session after ${SESSION_TIMEOUT_MS / 1000}s without requests`);
+      sessions.get(sessionId)?.close().catch(() => {});
+    }
+  }
+}
+
+// Serve a session with its own MCP server. connect() replaces the transport's
+// onclose with the server's, so the session is forgotten from that handler.
+async function connectSession(transport: StreamableHTTPServerTransport | SSEServerTransport, forget: () => void): Promise<void> {
+  await createServer().connect(transport);
+  const closeServer = transport.onclose;
+  transport.onclose = () => {
+    forget();
+    closeServer?.();
+  };
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+function isAuthorized(req: IncomingMessage): boolean {
+  if (!AUTH_TOKEN) return true;
+
+  const expected = Buffer.from(`Bearer ${AUTH_TOKEN}`);
+  const actual = Buffer.from(req.headers.authorization || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+  const sessionId = req.headers['mcp-session-id'];
+
+  if (typeof sessionId === 'string') {
+    const transport = sessions.get(sessionId);
+    if (!(transport instanceof StreamableHTTPServerTransport)) {
+      return sendError(res, 404, `Session not found: ${sessionId}`);
+    }
+    trackRequest(sessionId, res);
+    return transport.handleRequest(req, res, body);
+  }
+
+  if (req.method !== 'POST' || !isInitializeRequest(body)) {
+    return sendError(res, 400, 'Missing Mcp-Session-Id header; start a session with an initialize request');
+  }
+
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      sessions.set(id, transport);
+      activity.set(id, { open: 0, lastSeen: Date.now() });
+    }
+  });
+  await connectSession(transport, () => {
+    if (!transport.sessionId) return;
+    sessions.delete(transport.sessionId);
+    activity.delete(transport.sessionId);
+  });
+  await transport.handleRequest(req, res, body);
+}
+
+async function handleSseStream(res: ServerResponse): Promise<void> {
+  const transport = new SSEServerTransport('/messages', res);
+  sessions.set(transport.sessionId, transport);
+  await connectSession(transport, () => {
+    sessions.delete(transport.sessionId);
+  });
+}
+
+async function handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+  const transport = sessionId ? sessions.get(sessionId) : undefined;
+  if (!(transport instanceof SSEServerTransport)) {
+    return sendError(res, 404, `Session not found: ${sessionId}`);
+  }
+  await transport.handlePostMessage(req, res, await readJsonBody(req));
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (!isAuthorized(req)) {
+    return sendError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  if (url.pathname === '/mcp') {
+    return handleStreamableRequest(req, res);
+  }
+  if (url.pathname === '/sse' && req.method === 'GET') {
+    return handleSseStream(res);
+  }
+  if (url.pathname === '/messages' && req.method === 'POST') {
+    return handleSseMessage(req, res, url.searchParams.get('sessionId'));
+  }
+  sendError(res, 404, `Not found: ${req.method} ${url.pathname}`);
+}
+
+// Serve MCP over HTTP until the process exits
+export async function startHttpServer(): Promise<HttpServer> {
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      log('error', `HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (!res.headersSent) {
+        sendError(res, error instanceof SyntaxError ? 400 : 500, error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(PORT, HOST, resolve);
+  });
+
+  if (SESSION_TIMEOUT_MS > 0) {
+    const sweep = setInterval(closeIdleSessions, Math.min(SESSION_TIMEOUT_MS, 60_000));
+    sweep.unref();
+    httpServer.on('close', () => clearInterval(sweep));
+  }
+
+  if (!AUTH_TOKEN) {
+    log('warning', 'No LIBVIPS_MCP_AUTH_TOKEN set: any client that can reach the port can use the server');
+  }
+  log('info', `MCP server listening on http://${HOST}:${PORT}/mcp (SSE fallback on /sse)`);
+  return httpServer;
+}
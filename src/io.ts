@@ -0,0 +1,235 @@
+import sharp from 'sharp';
+import { existsSync, statSync } from 'fs';
+import { dirname } from 'path';
+import { mkdir } from 'fs/promises';
+import { ImageContent } from './types.js';
+import { vips } from './vips.js';
+import { isReadable, assertReadable, assertWritable } from './sandbox.js';
+import { isHandle, storeImage, getStoredImage, hasStoredImage } from './handles.js';
+import { notifyOutputWritten } from './resources.js';
+
+// Helper function to ensure directory exists
+export async function ensureDirectoryExists(filePath: string): Promise<void> {
+  const dir = dirname(filePath);
+  try {
+    await mkdir(dir, { recursive: true });
+  } catch (error) {
+    // Directory might already exist
+  }
+}
+
+// Write a tool output to disk and notify resource subscribers
+export async function writeOutputFile(outputPath: string, write: () => unknown): Promise<string> {
+  assertWritable(outputPath);
+  await ensureDirectoryExists(outputPath);
+  const created = !existsSync(outputPath);
+  await write();
+  notifyOutputWritten(outputPath, created);
+  return outputPath;
+}
+
+// Inline images: data:image/...;base64, URIs or raw base64 strings
+const DATA_URI_PATTERN = /^data:image\/[\w.+-]+;base64,/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/\r\n]+={0,2}$/;
+
+// Decode an inline image, or return null for file paths and handles
+export function decodeInlineImage(ref: string): Buffer | null {
+  if (typeof ref !== 'string') return null;
+  if (DATA_URI_PATTERN.test(ref)) {
+    return Buffer.from(ref.slice(ref.indexOf(',') + 1), 'base64');
+  }
+  // Short strings are far more likely to be (missing) paths than images. Only
+  // readable paths are probed, so the answer reveals nothing outside the roots.
+  if (ref.length >= 64 && BASE64_PATTERN.test(ref) && !(isReadable(ref) && existsSync(ref))) {
+    return Buffer.from(ref, 'base64');
+  }
+  return null;
+}
+
+// Helper function to check an input path, handle or inline image
+export function inputExists(ref: string): boolean {
+  if (isHandle(ref)) return hasStoredImage(ref);
+  if (decodeInlineImage(ref) !== null) return true;
+  // Check the sandbox before the filesystem, so "not found" never reveals
+  // that a path outside the read roots does not exist
+  assertReadable(ref);
+  return existsSync(ref);
+}
+
+// Sharp input for a path, handle or inline image, usable directly in composite()
+export function compositeInput(ref: string): { input: string | Buffer; raw?: sharp.Raw } {
+  if (isHandle(ref)) {
+    const { data, width, height, channels } = getStoredImage(ref);
+    return { input: data, raw: { width, height, channels } };
+  }
+  const inline = decodeInlineImage(ref);
+  if (inline) return { input: inline };
+
+  assertReadable(ref);
+  return { input: ref };
+}
+
+export function openSharp(ref: string): sharp.Sharp {
+  const { input, raw } = compositeInput(ref);
+  return raw ? sharp(input, { raw }) : sharp(input);
+}
+
+// A tool's own output, for describing or previewing it. Files were just
+// written under the write roots, which may lie outside the read roots.
+export function openOutput(ref: string): sharp.Sharp {
+  return isHandle(ref) ? openSharp(ref) : sharp(ref);
+}
+
+// Write to output_path, or keep the result in memory when no path is given
+export async function saveSharp(image: sharp.Sharp, outputPath?: string): Promise<string> {
+  if (outputPath) {
+    return writeOutputFile(outputPath, () => image.toFile(outputPath));
+  }
+
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return storeImage({
+    data,
+    width: info.width,
+    height: info.height,
+    channels: info.channels
+  });
+}
+
+// Decoded 8-bit pixels, interleaved by channel
+export interface RawPixels {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+export async function rawPixels(image: sharp.Sharp): Promise<RawPixels> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+// An image and its reference as sRGB pixels of the same size, with alpha only
+// when either has it; the input is resized to the reference when allowed
+export async function comparablePixels(input: string, reference: string, resizeToMatch: boolean) {
+  const [inputMeta, referenceMeta] = await Promise.all([openSharp(input).metadata(), openSharp(reference).metadata()]);
+  const { width, height } = referenceMeta as { width: number; height: number };
+  const resized = inputMeta.width !== width || inputMeta.height !== height;
+  if (resized && !resizeToMatch) {
+    throw new Error(`Images differ in size (${inputMeta.width}x${inputMeta.height} vs ${width}x${height}); set resize_to_match to compare anyway`);
+  }
+
+  const alpha = Boolean(inputMeta.hasAlpha || referenceMeta.hasAlpha);
+  const load = (image: sharp.Sharp) => {
+    image = image.toColourspace('srgb');
+    return rawPixels(alpha ? image.ensureAlpha() : image.removeAlpha());
+  };
+  const [inputPixels, referencePixels] = await Promise.all([
+    load(resized ? openSharp(input).resize(width, height, { fit: 'fill' }) : openSharp(input)),
+    load(openSharp(reference))
+  ]);
+  return { input: inputPixels, reference: referencePixels, resized };
+}
+
+// libvips names for the TIFF compression options accepted by the tools
+const TIFF_COMPRESSION: Record<string, string> = {
+  none: 'none',
+  lzw: 'lzw',
+  zip: 'deflate',
+  packbits: 'packbits'
+};
+
+export interface EncodeOptions {
+  quality?: number;
+  compression?: string;
+}
+
+// Set the output encoder of a Sharp pipeline, as used by image_convert
+export function encodeSharp(image: sharp.Sharp, format: string, { quality, compression }: EncodeOptions = {}): sharp.Sharp {
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({ quality: quality || 80 });
+    case 'png':
+      return image.png({ quality: quality || 80 });
+    case 'webp':
+      return image.webp({ quality: quality || 80 });
+    case 'tiff':
+      return image.tiff({
+        quality: quality || 80,
+        ...(compression && { compression: TIFF_COMPRESSION[compression] })
+      });
+    case 'avif':
+      return image.avif({ quality: quality || 80 });
+    case 'heif':
+      return image.heif({ quality: quality || 80 });
+    case 'gif':
+      return image.gif();
+    default:
+      throw new Error(`Unsupported output format: ${format}`);
+  }
+}
+
+// Requires initVips() to have been awaited
+export function openVips(ref: string): any {
+  if (isHandle(ref)) {
+    const { data, width, height, channels } = getStoredImage(ref);
+    return vips.Image.newFromMemory(data, width, height, channels, 'uchar');
+  }
+  const inline = decodeInlineImage(ref);
+  if (inline) return vips.Image.newFromBuffer(inline);
+
+  assertReadable(ref);
+  return vips.Image.newFromFile(ref);
+}
+
+export async function saveVips(image: any, outputPath?: string): Promise<string> {
+  if (outputPath) {
+    return writeOutputFile(outputPath, () => image.writeToFile(outputPath));
+  }
+
+  const pixels = image.format === 'uchar' ? image : image.cast('uchar');
+  return storeImage({
+    data: Buffer.from(pixels.writeToMemory()),
+    width: pixels.width,
+    height: pixels.height,
+    channels: pixels.bands
+  });
+}
+
+// Helper function to get image info
+export async function getImageInfo(imagePath: string) {
+  const image = openSharp(imagePath);
+  const metadata = await image.metadata();
+  const stats = await image.stats();
+  
+  return {
+    format: metadata.format,
+    width: metadata.width,
+    height: metadata.height,
+    channels: metadata.channels,
+    density: metadata.density,
+    hasProfile: metadata.hasProfile,
+    hasAlpha: metadata.hasAlpha,
+    orientation: metadata.orientation,
+    colorspace: metadata.space,
+    size: isHandle(imagePath)
+      ? getStoredImage(imagePath).data.length
+      : (decodeInlineImage(imagePath)?.length ?? statSync(imagePath).size),
+    stats: stats
+  };
+}
+
+// Encode an output (path or handle) as an MCP image content item, downscaled
+// so that neither dimension exceeds maxSize
+export async function imagePreview(ref: string, maxSize: number): Promise<ImageContent> {
+  const image = openOutput(ref).resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true });
+  const { hasAlpha } = await openOutput(ref).metadata();
+  const data = hasAlpha
+    ? await image.png().toBuffer()
+    : await image.jpeg({ quality: 80 }).toBuffer();
+
+  return {
+    type: 'image' as const,
+    data: data.toString('base64'),
+    mimeType: hasAlpha ? 'image/png' : 'image/jpeg'
+  };
+}
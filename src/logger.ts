@@ -0,0 +1,47 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { activeSession } from './session.js';
+
+// Server diagnostics. stdout carries the stdio JSON-RPC stream, so messages
+// are sent to connected clients as notifications/message, and written to
+// stderr when no client is connected. Messages logged during a tool call only
+// go to the client that made it.
+const LOGGER = 'libvips-mcp';
+
+// Syslog severities, least severe first
+const LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// Used until the client sends logging/setLevel
+const DEFAULT_LEVEL: LoggingLevel = 'info';
+
+// Minimum level each server's client asked for
+const levels = new Map<Server, LoggingLevel>();
+
+export function log(level: LoggingLevel, message: string): void {
+  const session = activeSession();
+  const connected = [...levels].filter(([server]) => server.transport && (!session || server === session));
+  if (connected.length === 0) {
+    console.error(`[${level}] ${message}`);
+    return;
+  }
+
+  for (const [server, minimum] of connected) {
+    if (LEVELS.indexOf(level) >= LEVELS.indexOf(minimum)) {
+      server.sendLoggingMessage({ level, logger: LOGGER, data: message }).catch(() => {});
+    }
+  }
+}
+
+// Register the logging/setLevel handler on a server
+export function registerLogging(server: Server): void {
+  levels.set(server, DEFAULT_LEVEL);
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    levels.set(server, request.params.level);
+    return {};
+  });
+}
+
+export function unregisterLogging(server: Server): void {
+  levels.delete(server);
+}
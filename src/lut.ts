@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import { openSharp, rawPixels } from './io.js';
+
+// 256-entry lookup tables for tonal corrections, applied to the red, green and
+// blue bands (or the gray band) in one pass over the pixels; alpha passes
+// through unchanged
+export type Lut = Uint8Array;
+
+export const LUT_CHANNELS = ['red', 'green', 'blue'];
+
+export function identityLut(): Lut {
+  return Uint8Array.from({ length: 256 }, (_, level) => level);
+}
+
+export function lutFrom(map: (level: number) => number): Lut {
+  return Uint8Array.from({ length: 256 }, (_, level) => Math.round(Math.min(255, Math.max(0, map(level)))));
+}
+
+// Apply `first`, then `second`
+export function composeLuts(first: Lut, second: Lut): Lut {
+  return first.map(value => second[value]);
+}
+
+function sameLut(a: Lut, b: Lut): boolean {
+  return a.every((value, level) => value === b[level]);
+}
+
+// Output is sRGB, with alpha when the input has it. Gray input stays gray
+// when all three tables are the same, as it is then corrected evenly.
+export async function applyLuts(ref: string, [red, green, blue]: Lut[]): Promise<sharp.Sharp> {
+  const { channels: inputChannels, hasAlpha } = await openSharp(ref).metadata();
+  const gray = inputChannels! - (hasAlpha ? 1 : 0) === 1 && sameLut(red, green) && sameLut(red, blue);
+  // Raw output is always sRGB, gray images included, with any alpha last
+  const { data, width, height, channels } = await rawPixels(openSharp(ref).toColourspace('srgb'));
+
+  if (gray) {
+    const outputChannels = hasAlpha ? 2 : 1;
+    const pixels = Buffer.alloc(width * height * outputChannels);
+    for (let i = 0; i < width * height; i++) {
+      pixels[i * outputChannels] = red[data[i * channels]];
+      if (hasAlpha) pixels[i * 2 + 1] = data[i * channels + channels - 1];
+    }
+    return sharp(pixels, { raw: { width, height, channels: outputChannels } }).toColourspace('b-w');
+  }
+
+  for (let p = 0; p < data.length; p += channels) {
+    data[p] = red[data[p]];
+    data[p + 1] = green[data[p + 1]];
+    data[p + 2] = blue[data[p + 2]];
+  }
+  return sharp(data, { raw: { width, height, channels } });
+}
@@ -0,0 +1,93 @@
+import { openSharp, rawPixels } from './io.js';
+
+// 64-bit perceptual hashes, as 16 hex digits:
+// - ahash: 8x8 grayscale, each bit set where the pixel is brighter than the mean
+// - dhash: 9x8 grayscale, each bit set where a pixel is brighter than its right neighbor
+// - phash: 32x32 grayscale, DCT, each of the 8x8 lowest frequencies set where
+//   it is above their median
+export const HASH_ALGORITHMS = ['phash', 'dhash', 'ahash'];
+
+const DCT_SIZE = 32;
+const HASH_SIZE = 8;
+
+// DCT-II basis for the lowest HASH_SIZE frequencies
+const DCT_BASIS = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Float64Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+async function grayscalePixels(ref: string, width: number, height: number): Promise<Buffer> {
+  const { data } = await rawPixels(
+    openSharp(ref)
+      .flatten({ background: '#ffffff' })
+      .grayscale()
+      .resize(width, height, { fit: 'fill' })
+  );
+  return data;
+}
+
+function toHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((Number(bits[i]) << 3) | (Number(bits[i + 1]) << 2) | (Number(bits[i + 2]) << 1) | Number(bits[i + 3])).toString(16);
+  }
+  return hex;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length / 2;
+  return (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export async function imageHash(ref: string, algorithm: string): Promise<string> {
+  switch (algorithm) {
+    case 'ahash': {
+      const pixels = [...await grayscalePixels(ref, HASH_SIZE, HASH_SIZE)];
+      const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+      return toHex(pixels.map(value => value > mean));
+    }
+    case 'dhash': {
+      const pixels = await grayscalePixels(ref, HASH_SIZE + 1, HASH_SIZE);
+      const bits: boolean[] = [];
+      for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+          bits.push(pixels[y * (HASH_SIZE + 1) + x] > pixels[y * (HASH_SIZE + 1) + x + 1]);
+        }
+      }
+      return toHex(bits);
+    }
+    case 'phash': {
+      const pixels = await grayscalePixels(ref, DCT_SIZE, DCT_SIZE);
+      // Separable DCT: rows first, then columns, for the low frequencies only
+      const rows = Array.from({ length: DCT_SIZE }, (_, y) =>
+        DCT_BASIS.map(basis => basis.reduce((sum, weight, x) => sum + weight * pixels[y * DCT_SIZE + x], 0))
+      );
+      const coefficients: number[] = [];
+      for (let v = 0; v < HASH_SIZE; v++) {
+        for (let u = 0; u < HASH_SIZE; u++) {
+          coefficients.push(DCT_BASIS[v].reduce((sum, weight, y) => sum + weight * rows[y][u], 0));
+        }
+      }
+      const threshold = median(coefficients);
+      return toHex(coefficients.map(value => value > threshold));
+    }
+    default:
+      throw new Error(`Unknown hash algorithm: ${algorithm}`);
+  }
+}
+
+// Split a 64-bit hex hash into two 32-bit words for fast comparison
+export function hashWords(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+function popcount(value: number): number {
+  value -= (value >>> 1) & 0x55555555;
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return Math.imul((value + (value >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+// Number of differing bits between two hashes
+export function hammingDistance(a: [number, number], b: [number, number]): number {
+  return popcount((a[0] ^ b[0]) >>> 0) + popcount((a[1] ^ b[1]) >>> 0);
+}
@@ -0,0 +1,42 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolRequest, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext } from './types.js';
+import { CancelledError } from './errors.js';
+
+// Context of a tools/call request. Progress is only reported when the client
+// asked for it with a progressToken.
+export function createToolContext(request: CallToolRequest, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolContext {
+  const progressToken = request.params._meta?.progressToken;
+
+  return {
+    signal: extra.signal,
+    progress(progress, total, message) {
+      if (progressToken === undefined) return;
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message }
+      }).catch(() => {});
+    }
+  };
+}
+
+// Call between units of work: yields to the event loop so a pending
+// notifications/cancelled is handled, then stops if it arrived. wasm-vips
+// evaluates synchronously, so it can only be cancelled at these points.
+export async function checkpoint(context: ToolContext): Promise<void> {
+  await new Promise(resolve => setImmediate(resolve));
+  if (context.signal.aborted) {
+    throw new CancelledError();
+  }
+}
+
+// Report libvips' evaluation progress while an image is computed and written
+export function trackVipsProgress(image: any, context: ToolContext, message: string): void {
+  let reported = -1;
+  image.onProgress = (percent: number) => {
+    if (percent > reported) {
+      reported = percent;
+      context.progress(percent, 100, message);
+    }
+  };
+}
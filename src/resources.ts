@@ -0,0 +1,162 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import { join, extname, resolve, relative } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { assertReadable, isReadable, isWithin } from './sandbox.js';
+import { getImageInfo } from './io.js';
+
+// Images under the working directory are published as MCP resources:
+// file:// URIs return the image bytes, image-info:// URIs its metadata
+const WORKDIR = resolve(process.env.LIBVIPS_MCP_WORKDIR || process.cwd());
+const INFO_SCHEME = 'image-info://';
+const MAX_RESOURCES = 1000;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.avif': 'image/avif',
+  '.heic': 'image/heif',
+  '.heif': 'image/heif',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml'
+};
+
+// URIs each connected server's client has subscribed to via resources/subscribe
+const subscriptions = new Map<Server, Set<string>>();
+
+function isInWorkdir(filePath: string): boolean {
+  return isWithin(WORKDIR, resolve(filePath));
+}
+
+export function isImageFile(filePath: string): boolean {
+  return extname(filePath).toLowerCase() in IMAGE_MIME_TYPES;
+}
+
+function findImages(dir: string, found: string[] = []): string[] {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (found.length >= MAX_RESOURCES) break;
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      findImages(entryPath, found);
+    } else if (entry.isFile() && isImageFile(entry.name)) {
+      found.push(entryPath);
+    }
+  }
+  return found;
+}
+
+// Resolve a file:// or image-info:// URI to a readable image in the working directory
+function resourcePath(uri: string): string {
+  const fileUri = uri.startsWith(INFO_SCHEME) ? `file://${uri.slice(INFO_SCHEME.length)}` : uri;
+  if (!fileUri.startsWith('file://')) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const filePath = fileURLToPath(fileUri);
+  if (!isInWorkdir(filePath) || !isImageFile(filePath) || !existsSync(filePath)) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+  assertReadable(filePath);
+  return filePath;
+}
+
+// Tell subscribers that a tool wrote to outputPath
+export function notifyOutputWritten(outputPath: string, created: boolean): void {
+  const uri = pathToFileURL(resolve(outputPath)).href;
+  const infoUri = INFO_SCHEME + uri.slice('file://'.length);
+
+  for (const [server, uris] of subscriptions) {
+    for (const subscribed of [uri, infoUri]) {
+      if (uris.has(subscribed)) {
+        server.sendResourceUpdated({ uri: subscribed }).catch(() => {});
+      }
+    }
+    if (created && isInWorkdir(outputPath) && isImageFile(outputPath)) {
+      server.sendResourceListChanged().catch(() => {});
+    }
+  }
+}
+
+// Register the resources/* handlers on a server
+export function registerResourceHandlers(server: Server): void {
+  const uris = new Set<string>();
+  subscriptions.set(server, uris);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources: Resource[] = [];
+
+    for (const imagePath of findImages(WORKDIR).filter(isReadable)) {
+      const uri = pathToFileURL(imagePath).href;
+      const name = relative(WORKDIR, imagePath);
+
+      resources.push({
+        uri,
+        name,
+        mimeType: IMAGE_MIME_TYPES[extname(imagePath).toLowerCase()]
+      });
+      resources.push({
+        uri: INFO_SCHEME + uri.slice('file://'.length),
+        name: `${name} (metadata)`,
+        mimeType: 'application/json'
+      });
+    }
+
+    return { resources };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const imagePath = resourcePath(uri);
+
+    if (uri.startsWith(INFO_SCHEME)) {
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(await getImageInfo(imagePath), null, 2)
+          }
+        ]
+      };
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: IMAGE_MIME_TYPES[extname(imagePath).toLowerCase()],
+          blob: readFileSync(imagePath).toString('base64')
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    uris.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    uris.delete(request.params.uri);
+    return {};
+  });
+}
+
+// Drop a server's subscriptions once its session has ended
+export function unregisterResourceHandlers(server: Server): void {
+  subscriptions.delete(server);
+}
@@ -0,0 +1,35 @@
+import { statSync } from 'fs';
+import { Backend, ToolResult } from './types.js';
+import { isHandle, getStoredImage } from './handles.js';
+import { openOutput, imagePreview } from './io.js';
+
+// Dimensions, format and size of an output path or handle
+export async function describeOutput(ref: string) {
+  const { width, height, channels, format, compression } = await openOutput(ref).metadata();
+  return {
+    width,
+    height,
+    bands: channels,
+    // Sharp reports AVIF as its HEIF container
+    format: format === 'heif' && compression === 'av1' ? 'avif' : format,
+    bytes: isHandle(ref) ? getStoredImage(ref).data.length : statSync(ref).size
+  };
+}
+
+// Result of an image-producing tool, with the image itself attached when requested
+export async function imageResult(message: string, output: string, args: any, backend: Backend = 'sharp'): Promise<ToolResult> {
+  const { return_image = 'none', preview_max_size = 1024 } = args || {};
+  const result: ToolResult = {
+    structuredContent: { message, output, ...(await describeOutput(output)), backend }
+  };
+
+  if (return_image !== 'none') {
+    result.image = await imagePreview(output, preview_max_size);
+  }
+  return result;
+}
+
+// Result of an analysis tool
+export function dataResult(data: Record<string, unknown>, backend?: Backend): ToolResult {
+  return { structuredContent: backend ? { ...data, backend } : data };
+}
@@ -0,0 +1,60 @@
+import { existsSync, realpathSync } from 'fs';
+import { join, dirname, basename, resolve, relative, isAbsolute, delimiter } from 'path';
+import { cliValues, configuredFlag } from './config.js';
+
+// Filesystem sandbox, configured with environment variables or CLI flags:
+//   LIBVIPS_MCP_READ_ROOTS / --read-root <dir>    directories inputs may be read from
+//   LIBVIPS_MCP_WRITE_ROOTS / --write-root <dir>  directories outputs may be written to
+//   LIBVIPS_MCP_READ_ONLY=1 / --read-only         refuse every write
+//   LIBVIPS_MCP_NO_OVERWRITE=1 / --no-overwrite   refuse to replace existing files
+// Without roots, paths are unrestricted. Write roots default to the read roots.
+function configuredRoots(envName: string, flag: string): string[] {
+  const fromEnv = (process.env[envName] || '').split(delimiter).filter(Boolean);
+  return [...fromEnv, ...cliValues(flag)].map(root => realPath(root));
+}
+
+// Resolve symlinks, including for paths that do not exist yet, by resolving
+// the nearest existing ancestor
+function realPath(filePath: string): string {
+  const absolute = resolve(filePath);
+  if (existsSync(absolute)) return realpathSync(absolute);
+  const parent = dirname(absolute);
+  return parent === absolute ? absolute : join(realPath(parent), basename(absolute));
+}
+
+export function isWithin(root: string, filePath: string): boolean {
+  const rel = relative(root, filePath);
+  return !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+const READ_ROOTS = configuredRoots('LIBVIPS_MCP_READ_ROOTS', '--read-root');
+const WRITE_ROOTS = configuredRoots('LIBVIPS_MCP_WRITE_ROOTS', '--write-root');
+const READ_ONLY = configuredFlag('LIBVIPS_MCP_READ_ONLY', '--read-only');
+const NO_OVERWRITE = configuredFlag('LIBVIPS_MCP_NO_OVERWRITE', '--no-overwrite');
+
+export function isReadable(filePath: string): boolean {
+  if (READ_ROOTS.length === 0) return true;
+  const real = realPath(filePath);
+  return READ_ROOTS.some(root => isWithin(root, real));
+}
+
+export function assertReadable(filePath: string): void {
+  if (!isReadable(filePath)) {
+    throw new Error(`Access denied: ${filePath} is outside the allowed read roots`);
+  }
+}
+
+export function assertWritable(filePath: string): void {
+  if (READ_ONLY) {
+    throw new Error(`Access denied: server is read-only, cannot write ${filePath}`);
+  }
+
+  const roots = WRITE_ROOTS.length > 0 ? WRITE_ROOTS : READ_ROOTS;
+  const real = realPath(filePath);
+  if (roots.length > 0 && !roots.some(root => isWithin(root, real))) {
+    throw new Error(`Access denied: ${filePath} is outside the allowed write roots`);
+  }
+  if (NO_OVERWRITE && existsSync(real)) {
+    throw new Error(`Access denied: ${filePath} already exists and overwriting is disabled`);
+  }
+}
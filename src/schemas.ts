@@ -0,0 +1,267 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BACKEND_CHOICES } from './backends.js';
+
+// Options shared by every tool that produces an image
+export const previewProperties = {
+  return_image: {
+    type: 'string',
+    enum: ['none', 'append', 'only'],
+    default: 'none',
+    description: 'Return the result as an MCP image: "append" adds it after the text message, "only" replaces the message'
+  },
+  preview_max_size: {
+    type: 'number',
+    default: 1024,
+    minimum: 16,
+    description: 'Maximum width/height of the returned image; larger results are downscaled'
+  }
+};
+
+// Options of every tool implemented for both Sharp and wasm-vips
+export const backendOptionProperties = {
+  backend: {
+    type: 'string',
+    enum: BACKEND_CHOICES,
+    description: 'Engine to run on: "vips" or "sharp" force one engine, "auto" tries wasm-vips and falls back to Sharp (default: the server setting, normally "auto")'
+  },
+  strict: {
+    type: 'boolean',
+    description: 'Fail with a capability_unavailable error instead of returning a Sharp approximation of the operation (default: the server setting, normally false)'
+  }
+};
+
+// Output schemas. duration_ms is added to every result by the CallTool handler.
+const backendProperty = {
+  type: 'string',
+  enum: ['sharp', 'wasm-vips'],
+  description: 'Engine that produced the result'
+};
+
+const fallbackProperty = {
+  type: 'string',
+  description: 'Why wasm-vips failed, when "auto" fell back to Sharp'
+};
+
+export const imageOutputSchema: Tool['outputSchema'] = {
+  type: 'object',
+  properties: {
+    message: { type: 'string', description: 'Human-readable summary' },
+    output: { type: 'string', description: 'Output path or img:// handle' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    bands: { type: 'number', description: 'Number of channels' },
+    format: { type: 'string', description: 'Output format ("raw" for in-memory handles)' },
+    bytes: { type: 'number', description: 'File size, or raw pixel size for in-memory handles' },
+    duration_ms: { type: 'number' },
+    backend: backendProperty,
+    fallback_reason: fallbackProperty
+  },
+  required: ['message', 'output', 'width', 'height', 'bands', 'format', 'bytes', 'duration_ms', 'backend']
+};
+
+export const convertOutputSchema: Tool['outputSchema'] = {
+  ...imageOutputSchema,
+  properties: {
+    ...imageOutputSchema.properties,
+    quality: { type: 'number', description: 'Encoder quality chosen to fit max_bytes' },
+    scale: { type: 'number', description: 'Downscale factor applied to fit max_bytes (1 = original size)' }
+  }
+};
+
+export const diffOutputSchema: Tool['outputSchema'] = {
+  ...imageOutputSchema,
+  properties: {
+    ...imageOutputSchema.properties,
+    different_pixels: { type: 'number', description: 'Number of pixels above the threshold' },
+    different_percent: { type: 'number', description: 'Share of pixels above the threshold, in percent' },
+    region_count: { type: 'number', description: 'Number of changed regions, including any beyond max_regions' },
+    regions: {
+      type: 'array',
+      description: 'Bounding boxes of the changed regions, largest first',
+      items: {
+        type: 'object',
+        properties: {
+          left: { type: 'number' },
+          top: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+          pixels: { type: 'number', description: 'Changed pixels in the region' }
+        }
+      }
+    },
+    resized: { type: 'boolean', description: 'The input was resized to the reference dimensions' }
+  },
+  required: [...(imageOutputSchema.required || []), 'different_pixels', 'different_percent', 'region_count', 'regions']
+};
+
+// Analysis results vary with the backend, so only the shared fields are required
+function analysisOutputSchema(properties: Record<string, object>): Tool['outputSchema'] {
+  return {
+    type: 'object',
+    properties: {
+      ...properties,
+      duration_ms: { type: 'number' },
+      backend: backendProperty,
+      fallback_reason: fallbackProperty
+    },
+    required: ['duration_ms', 'backend']
+  };
+}
+
+export const imageInfoOutputSchema = analysisOutputSchema({
+  format: { type: 'string' },
+  width: { type: 'number' },
+  height: { type: 'number' },
+  channels: { type: 'number' },
+  hasAlpha: { type: 'boolean' },
+  colorspace: { type: 'string' },
+  size: { type: 'number', description: 'File size in bytes' },
+  stats: { type: 'object' }
+});
+
+export const histogramOutputSchema = analysisOutputSchema({
+  mode: { type: 'string' },
+  bins: { type: 'number' },
+  bin_width: { type: 'number', description: 'Width of each bin in channel units (0-255, or 0-100 for lightness)' },
+  channels: {
+    type: 'array',
+    description: 'Per channel: name, min, max, mean, stdev, counts per bin, optional cumulative shares, percentiles and the clipped_low/clipped_high shares',
+    items: { type: 'object' }
+  },
+  isOpaque: { type: 'boolean' },
+  entropy: { type: 'number' },
+  dominantColor: { type: 'object' },
+  chart: { type: 'string', description: 'Path of the rendered chart' }
+});
+
+export const statisticsOutputSchema = analysisOutputSchema({
+  width: { type: 'number' },
+  height: { type: 'number' },
+  bands: { type: 'number' }
+});
+
+export const pyramidOutputSchema = analysisOutputSchema({
+  message: { type: 'string' },
+  levels: { type: 'array', items: { type: 'object' } }
+});
+
+export const releaseOutputSchema: Tool['outputSchema'] = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    released: { type: 'array', items: { type: 'string' } },
+    duration_ms: { type: 'number' }
+  },
+  required: ['message', 'released', 'duration_ms']
+};
+
+export const capabilitiesOutputSchema: Tool['outputSchema'] = {
+  type: 'object',
+  properties: {
+    default_backend: { type: 'string', enum: BACKEND_CHOICES },
+    strict: { type: 'boolean' },
+    sharp: { type: 'object', description: 'Sharp and libvips versions, formats, encoders and tools' },
+    wasm_vips: { type: 'object', description: 'wasm-vips versions, formats, encoders, operations and tools' },
+    fallbacks: { type: 'array', items: { type: 'string' }, description: 'Tools that would fall back to Sharp under "auto"' },
+    tools: { type: 'array', items: { type: 'object' } },
+    duration_ms: { type: 'number' }
+  },
+  required: ['default_backend', 'strict', 'sharp', 'wasm_vips', 'fallbacks', 'tools', 'duration_ms']
+};
+
+export const batchOutputSchema: Tool['outputSchema'] = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    total: { type: 'number', description: 'Number of matching images' },
+    succeeded: { type: 'number' },
+    failed: { type: 'number' },
+    skipped: { type: 'number', description: 'Images not processed because stop_on_error stopped the batch' },
+    results: {
+      type: 'array',
+      items: { type: 'object' },
+      description: 'Per-file input with its output (or analysis result), or the error'
+    },
+    duration_ms: { type: 'number' }
+  },
+  required: ['message', 'total', 'succeeded', 'failed', 'skipped', 'results', 'duration_ms']
+};
+
+export const responsiveSetOutputSchema = analysisOutputSchema({
+  message: { type: 'string' },
+  html: { type: 'string', description: '<picture> (or <img srcset>) snippet referencing the generated images' },
+  images: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        format: { type: 'string' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+        bytes: { type: 'number' },
+        path: { type: 'string' },
+        url: { type: 'string' }
+      },
+      required: ['format', 'width', 'height', 'bytes', 'path', 'url']
+    },
+    description: 'Manifest of the generated images'
+  },
+  skipped_widths: { type: 'array', items: { type: 'number' }, description: 'Requested widths larger than the source, which were replaced by the source width' }
+});
+
+export const compareOutputSchema = analysisOutputSchema({
+  identical: { type: 'boolean' },
+  width: { type: 'number' },
+  height: { type: 'number' },
+  mse: { type: 'number', description: 'Mean squared error over all channels (0-65025)' },
+  psnr: { type: ['number', 'null'], description: 'Peak signal-to-noise ratio in dB; null when the images are identical' },
+  ssim: { type: 'number', description: 'Structural similarity, 1 for identical images' },
+  dssim: { type: 'number', description: 'Structural dissimilarity, (1 - SSIM) / 2' },
+  max_difference: { type: 'number', description: 'Largest difference of any sample (0-255)' },
+  channels: { type: 'array', items: { type: 'object' }, description: 'Per-channel mse, psnr and ssim' },
+  resized: { type: 'boolean', description: 'The input was resized to the reference dimensions' },
+  heatmap: { type: 'string', description: 'Path of the difference heatmap' }
+});
+
+export const phashOutputSchema = analysisOutputSchema({
+  hash: { type: 'string', description: '64-bit hash as 16 hex digits; compare hashes by Hamming distance' },
+  algorithm: { type: 'string' },
+  bits: { type: 'number' }
+});
+
+export const duplicatesOutputSchema = analysisOutputSchema({
+  message: { type: 'string' },
+  scanned: { type: 'number', description: 'Number of images hashed' },
+  duplicates: { type: 'number', description: 'Images in groups other than the one to keep' },
+  groups: {
+    type: 'array',
+    description: 'Groups of near-duplicates, each with the image to keep (highest resolution, then largest file) first',
+    items: {
+      type: 'object',
+      properties: {
+        keep: { type: 'string' },
+        files: { type: 'array', items: { type: 'object' } }
+      }
+    }
+  },
+  errors: { type: 'array', items: { type: 'object' }, description: 'Images that could not be read' }
+});
+
+export const paletteOutputSchema = analysisOutputSchema({
+  colors: {
+    type: 'array',
+    description: 'Dominant colors, most common first',
+    items: {
+      type: 'object',
+      properties: {
+        hex: { type: 'string' },
+        rgb: { type: 'array', items: { type: 'number' } },
+        lab: { type: 'array', items: { type: 'number' }, description: 'CIE L*a*b* (D65)' },
+        proportion: { type: 'number', description: 'Share of the opaque pixels (0-1)' }
+      },
+      required: ['hex', 'rgb', 'lab', 'proportion']
+    }
+  },
+  method: { type: 'string' },
+  swatch: { type: 'string', description: 'Path of the swatch image' }
+});
@@ -0,0 +1,85 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { findTool, tools } from './tools/registry.js';
+import { validateArguments } from './validation.js';
+import { registerResourceHandlers, unregisterResourceHandlers } from './resources.js';
+import { registerLogging, unregisterLogging } from './logger.js';
+import { releaseSessionImages } from './handles.js';
+import { runInSession } from './session.js';
+import { createToolContext } from './progress.js';
+import { ToolError } from './errors.js';
+import { assertBackendSupported } from './backends.js';
+
+// Create a server exposing every registered tool, the working directory
+// resources and diagnostic logging
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: '@moeloubani/libvips-mcp-server-enhanced',
+      version: '1.2.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        logging: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools };
+  });
+
+  // Tool execution handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    const started = Date.now();
+
+    try {
+      const tool = findTool(name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      const args = validateArguments(tool.definition, request.params.arguments);
+      assertBackendSupported(tool);
+      const { structuredContent, image } = await runInSession(server, () => tool.execute(args, createToolContext(request, extra)));
+      structuredContent.duration_ms = Date.now() - started;
+
+      const content: any[] = [];
+      if (!image || args.return_image !== 'only') {
+        content.push({ type: 'text', text: JSON.stringify(structuredContent, null, 2) });
+      }
+      if (image) {
+        content.push(image);
+      }
+
+      return { content, structuredContent };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: error instanceof ToolError
+              ? `Error [${error.code}]: ${error.message}`
+              : `Error: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  registerResourceHandlers(server);
+  registerLogging(server);
+
+  // Free the client's state once its session ends
+  server.onclose = () => {
+    releaseSessionImages(server);
+    unregisterResourceHandlers(server);
+    unregisterLogging(server);
+  };
+
+  return server;
+}
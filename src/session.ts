@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+// Client session a tool call runs for. Over HTTP every session has its own
+// Server instance, which is used to keep per-client state (in-memory handles,
+// log messages) apart; stdio has a single session.
+const currentSession = new AsyncLocalStorage<Server>();
+
+export function runInSession<T>(server: Server, fn: () => T): T {
+  return currentSession.run(server, fn);
+}
+
+// undefined outside a tool call, e.g. during start-up
+export function activeSession(): Server | undefined {
+  return currentSession.getStore();
+}
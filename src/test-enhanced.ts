@@ -44,6 +44,19 @@ const tests = [
     }
   },
   // Test drawing operations
+  {
+    name: 'Draw Rectangle',
+    tool: 'image_draw_rect',
+    args: {
+      input_path: testImage,
+      output_path: 'output/enhanced-rect.jpg',
+      left: 50,
+      top: 50,
+      width: 200,
+      height: 100,
+      color: '#0000FF'
+    }
+  },
   {
     name: 'Draw Line',
     tool: 'image_draw_line',
@@ -110,6 +123,13 @@ const tests = [
     args: {
       input_path: testImage
     }
+  },
+  {
+    name: 'Basic Statistics',
+    tool: 'image_stats',
+    args: {
+      input_path: testImage
+    }
   }
 ];
 
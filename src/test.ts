@@ -3,6 +3,7 @@
 import { spawn } from 'child_process';
 import { writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { tmpdir } from 'os';
 
 // Create test directory
 const testDir = join(process.cwd(), 'test_images');
@@ -20,6 +21,12 @@ const whitePNG = Buffer.from([
   0x45, 0x4E, 0x44, 0xAE, 0x42, 0x60, 0x82
 ]);
 
+// 4x4 grayscale ramp (1 band)
+const grayPNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAQAAAAECAAAAACMmsGiAAAACXBIWXMAAAPoAAAD6AG1e1JrAAAAHUlEQVR4nGNgEFAwYHAISChgaJiwYAPDgQsPPgAAMNQHgaL7nZMAAAAASUVORK5CYII=';
+
+// Write root for the sandbox test, deliberately outside the read root
+const sandboxOutputDir = join(tmpdir(), 'libvips-mcp-test-output');
+
 const testImagePath = join(testDir, 'test.png');
 writeFileSync(testImagePath, whitePNG);
 
@@ -100,6 +107,342 @@ const testCases = [
         }
       }
     }
+  },
+  {
+    name: 'Pipeline',
+    expectSuccess: true,
+    request: {
+      jsonrpc: '2.0',
+      id: 6,
+      method: 'tools/call',
+      params: {
+        name: 'image_pipeline',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_path: join(testDir, 'pipeline.jpg'),
+          steps: [
+            { operation: 'resize', width: 50 },
+            { operation: 'blur', sigma: 2 },
+            { operation: 'grayscale' },
+            { operation: 'colorspace', space: 'cmyk' },
+            { operation: 'convert', format: 'jpeg', quality: 70 }
+          ]
+        }
+      }
+    }
+  },
+  {
+    name: 'Forced Backend',
+    expectSuccess: true,
+    request: {
+      jsonrpc: '2.0',
+      id: 7,
+      method: 'tools/call',
+      params: {
+        name: 'image_morphology',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_path: join(testDir, 'eroded.png'),
+          operation: 'erode',
+          kernel: [[128, 255, 128], [255, 255, 255], [128, 255, 128]],
+          backend: 'vips'
+        }
+      }
+    }
+  },
+  {
+    name: 'Strict Mode',
+    request: {
+      jsonrpc: '2.0',
+      id: 8,
+      method: 'tools/call',
+      params: {
+        name: 'image_flood_fill',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_path: join(testDir, 'filled.png'),
+          x: 10,
+          y: 10,
+          backend: 'sharp',
+          strict: true
+        }
+      }
+    }
+  },
+  {
+    name: 'Invalid Arguments',
+    request: {
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: {
+        name: 'image_crop',
+        arguments: {
+          input_path: testImagePath,
+          x: 0,
+          y: 0,
+          width: -10,
+          height: 10,
+          heigth: 10
+        }
+      }
+    }
+  },
+  {
+    name: 'Capabilities',
+    request: {
+      jsonrpc: '2.0',
+      id: 10,
+      method: 'tools/call',
+      params: {
+        name: 'image_capabilities',
+        arguments: {}
+      }
+    }
+  },
+  {
+    name: 'Progress Notifications',
+    request: {
+      jsonrpc: '2.0',
+      id: 11,
+      method: 'tools/call',
+      params: {
+        name: 'image_create_pyramid',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_dir: join(testDir, 'pyramid'),
+          levels: 2
+        },
+        _meta: { progressToken: 'pyramid' }
+      }
+    }
+  },
+  {
+    name: 'Batch',
+    expectSuccess: true,
+    request: {
+      jsonrpc: '2.0',
+      id: 12,
+      method: 'tools/call',
+      params: {
+        name: 'image_batch',
+        arguments: {
+          inputs: join(testDir, '*.png'),
+          tool: 'image_thumbnail',
+          arguments: { size: 32 },
+          output_path: join(testDir, 'batch', '{name}_{size}_{crop}.{ext}')
+        }
+      }
+    }
+  },
+  {
+    name: 'Responsive Set',
+    request: {
+      jsonrpc: '2.0',
+      id: 13,
+      method: 'tools/call',
+      params: {
+        name: 'image_responsive_set',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_dir: join(testDir, 'responsive'),
+          widths: [50, 100],
+          formats: ['webp', 'jpeg']
+        }
+      }
+    }
+  },
+  {
+    name: 'Target File Size',
+    request: {
+      jsonrpc: '2.0',
+      id: 14,
+      method: 'tools/call',
+      params: {
+        name: 'image_convert',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_path: join(testDir, 'fitted.jpg'),
+          format: 'jpeg',
+          max_bytes: 2000
+        }
+      }
+    }
+  },
+  {
+    name: 'Compare',
+    request: {
+      jsonrpc: '2.0',
+      id: 15,
+      method: 'tools/call',
+      params: {
+        name: 'image_compare',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          reference_path: join(testDir, 'red_square.png'),
+          per_channel: true,
+          heatmap_path: join(testDir, 'heatmap.png')
+        }
+      }
+    }
+  },
+  {
+    name: 'Visual Diff',
+    request: {
+      jsonrpc: '2.0',
+      id: 16,
+      method: 'tools/call',
+      params: {
+        name: 'image_diff',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          reference_path: join(testDir, 'red_square.png'),
+          output_path: join(testDir, 'diff.png'),
+          threshold: 8
+        }
+      }
+    }
+  },
+  {
+    name: 'Find Duplicates',
+    request: {
+      jsonrpc: '2.0',
+      id: 17,
+      method: 'tools/call',
+      params: {
+        name: 'image_find_duplicates',
+        arguments: {
+          inputs: join(testDir, '*.png'),
+          algorithm: 'phash'
+        }
+      }
+    }
+  },
+  {
+    name: 'Palette',
+    expectSuccess: true,
+    request: {
+      jsonrpc: '2.0',
+      id: 18,
+      method: 'tools/call',
+      params: {
+        name: 'image_palette',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          colors: 3,
+          swatch_path: join(testDir, 'swatch.png')
+        }
+      }
+    }
+  },
+  {
+    name: 'Histogram',
+    request: {
+      jsonrpc: '2.0',
+      id: 19,
+      method: 'tools/call',
+      params: {
+        name: 'image_histogram',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          bins: 16,
+          mode: 'luminance',
+          cumulative: true,
+          chart_path: join(testDir, 'histogram.png')
+        }
+      }
+    }
+  },
+  {
+    name: 'Equalize',
+    request: {
+      jsonrpc: '2.0',
+      id: 20,
+      method: 'tools/call',
+      params: {
+        name: 'image_equalize',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          output_path: join(testDir, 'equalized.png'),
+          method: 'clahe',
+          tile_size: 32
+        }
+      }
+    }
+  },
+  {
+    name: 'Levels',
+    request: {
+      jsonrpc: '2.0',
+      id: 21,
+      method: 'tools/call',
+      params: {
+        name: 'image_levels',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          output_path: join(testDir, 'levels.png'),
+          black_point: 20,
+          white_point: 235,
+          gamma: 1.2,
+          channels: { blue: { white_point: 220 } }
+        }
+      }
+    }
+  },
+  {
+    name: 'Curves',
+    request: {
+      jsonrpc: '2.0',
+      id: 22,
+      method: 'tools/call',
+      params: {
+        name: 'image_curves',
+        arguments: {
+          input_path: join(testDir, 'fitted.jpg'),
+          output_path: join(testDir, 'curves.png'),
+          points: [[0, 0], [64, 50], [192, 205], [255, 255]],
+          red: [[0, 10], [255, 255]]
+        }
+      }
+    }
+  },
+  {
+    name: 'Grayscale Curves',
+    expectSuccess: true,
+    // Gray input stays gray
+    expectResult: { bands: 1 },
+    request: {
+      jsonrpc: '2.0',
+      id: 23,
+      method: 'tools/call',
+      params: {
+        name: 'image_curves',
+        arguments: {
+          input_path: grayPNG,
+          output_path: join(testDir, 'curves_gray.png'),
+          points: [[0, 0], [128, 160], [255, 255]]
+        }
+      }
+    }
+  },
+  {
+    name: 'Separate Read and Write Roots',
+    expectSuccess: true,
+    serverArgs: ['--read-root', testDir, '--write-root', sandboxOutputDir],
+    request: {
+      jsonrpc: '2.0',
+      id: 24,
+      method: 'tools/call',
+      params: {
+        name: 'image_resize',
+        arguments: {
+          input_path: join(testDir, 'red_square.png'),
+          output_path: join(sandboxOutputDir, 'resized.png'),
+          width: 32,
+          return_image: 'append'
+        }
+      }
+    }
   }
 ];
 
@@ -108,7 +451,7 @@ async function runTest(testCase: any): Promise<void> {
     console.log(`\n🔍 Testing: ${testCase.name}`);
     
     // Spawn the MCP server
-    const server = spawn('node', ['dist/index.js'], {
+    const server = spawn('node', ['dist/index.js', ...(testCase.serverArgs || [])], {
       stdio: ['pipe', 'pipe', 'pipe']
     });
 
@@ -125,9 +468,25 @@ async function runTest(testCase: any): Promise<void> {
     server.on('close', (code: number | null) => {
       if (code === 0) {
         try {
-          // Parse the JSON-RPC response
-          const lines = response.trim().split('\n');
-          const jsonResponse = JSON.parse(lines[lines.length - 1]);
+          // Pick the JSON-RPC response out of any log notifications
+          const jsonResponse = response.trim().split('\n')
+            .map(line => JSON.parse(line))
+            .find(message => message.id === testCase.request.id);
+          if (!jsonResponse) {
+            throw new Error('No response');
+          }
+          if (testCase.expectSuccess && jsonResponse.result?.isError) {
+            console.log(`❌ ${testCase.name}: TOOL ERROR`);
+            console.log(`   Response: ${JSON.stringify(jsonResponse.result.content).substring(0, 200)}...`);
+            return resolve();
+          }
+          const unexpected = Object.entries(testCase.expectResult || {})
+            .filter(([key, value]) => jsonResponse.result?.structuredContent?.[key] !== value);
+          if (unexpected.length > 0) {
+            console.log(`❌ ${testCase.name}: UNEXPECTED RESULT`);
+            console.log(`   Expected ${unexpected.map(([key, value]) => `${key} = ${value}`).join(', ')}, got ${JSON.stringify(jsonResponse.result?.structuredContent).substring(0, 200)}...`);
+            return resolve();
+          }
           
           console.log(`✅ ${testCase.name}: SUCCESS`);
           if (jsonResponse.result) {
@@ -173,6 +532,21 @@ async function runAllTests() {
   console.log(`   - ${join(testDir, 'red_square.png')}`);
   console.log(`   - ${join(testDir, 'resized.png')}`);
   console.log(`   - ${join(testDir, 'converted.webp')}`);
+  console.log(`   - ${join(testDir, 'pipeline.jpg')}`);
+  console.log(`   - ${join(testDir, 'eroded.png')}`);
+  console.log(`   - ${join(testDir, 'pyramid')}/level_*.jpg`);
+  console.log(`   - ${join(testDir, 'batch')}/*_32_false.png`);
+  console.log(`   - ${join(testDir, 'responsive')}/red_square-*.{webp,jpg}`);
+  console.log(`   - ${join(testDir, 'fitted.jpg')}`);
+  console.log(`   - ${join(testDir, 'heatmap.png')}`);
+  console.log(`   - ${join(testDir, 'diff.png')}`);
+  console.log(`   - ${join(testDir, 'swatch.png')}`);
+  console.log(`   - ${join(testDir, 'histogram.png')}`);
+  console.log(`   - ${join(testDir, 'equalized.png')}`);
+  console.log(`   - ${join(testDir, 'levels.png')}`);
+  console.log(`   - ${join(testDir, 'curves.png')}`);
+  console.log(`   - ${join(testDir, 'curves_gray.png')}`);
+  console.log(`   - ${join(sandboxOutputDir, 'resized.png')}`);
 }
 
 runAllTests().catch(console.error); 
\ No newline at end of file
@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+export const createSolidColor: ToolModule = {
+  definition: {
+    name: 'create_solid_color',
+    description: 'Create a solid color image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        width: {
+          type: 'number',
+          minimum: 1,
+          description: 'Image width in pixels'
+        },
+        height: {
+          type: 'number',
+          minimum: 1,
+          description: 'Image height in pixels'
+        },
+        color: {
+          type: 'string',
+          description: 'Color in hex format (e.g., #FF0000)',
+          default: '#FFFFFF'
+        }
+      },
+      required: ['width', 'height']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args) {
+    const { output_path, width, height, color } = args as any;
+    
+    // Convert hex color to RGB
+    const hex = color.replace('#', '');
+    const r = parseInt(hex.substr(0, 2), 16);
+    const g = parseInt(hex.substr(2, 2), 16);
+    const b = parseInt(hex.substr(4, 2), 16);
+    
+    const image = sharp({
+      create: {
+        width,
+        height,
+        channels: 3,
+        background: { r, g, b }
+      }
+    }).png();
+
+    const output = await saveSharp(image, output_path);
+    
+    return imageResult(`Solid color image created (${width}x${height}, ${color})`, output, args);
+  }
+};
@@ -0,0 +1,90 @@
+import { ToolModule } from '../types.js';
+import { vips } from '../vips.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageAddNoise: ToolModule = {
+  definition: {
+    name: 'image_add_noise',
+    description: 'Add various types of noise to images',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        noise_type: { 
+          type: 'string',
+          enum: ['gaussian', 'uniform', 'salt_pepper'],
+          description: 'Type of noise to add'
+        },
+        amount: { type: 'number', default: 0.1, minimum: 0, maximum: 1, description: 'Noise intensity (0-1)' }
+      },
+      required: ['input_path', 'noise_type']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['black', 'gaussnoise', 'add', 'ifthenelse'],
+
+  async execute(args) {
+    const { input_path, output_path, noise_type, amount } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Noise generation',
+      approximation: 'adjusts brightness and saturation randomly instead of adding noise',
+
+      vips: async () => {
+        log('debug', `🎲 Adding ${noise_type} noise with wasm-vips...`);
+    
+        const image = openVips(input_path);
+        let result;
+    
+        switch (noise_type) {
+          case 'gaussian':
+            const noise = vips.Image.gaussnoise(image.width, image.height, { sigma: amount * 255 });
+            result = image.add(noise);
+            break;
+          case 'uniform':
+            const uniformNoise = vips.Image.black(image.width, image.height).add(Math.random() * amount * 255);
+            result = image.add(uniformNoise);
+            break;
+          case 'salt_pepper':
+            // Salt and pepper noise approximation
+            const mask = vips.Image.black(image.width, image.height).add(Math.random() > amount ? 0 : 255);
+            result = image.ifthenelse(mask, vips.Image.black(image.width, image.height).add(255), image);
+            break;
+          default:
+            throw new Error(`Unknown noise type: ${noise_type}`);
+        }
+    
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`${noise_type} noise added (amount: ${amount})`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        // Simple noise approximation using Sharp
+        const noiseAmount = Math.floor(amount * 100);
+    
+        const image = openSharp(input_path)
+          .modulate({ 
+            brightness: 1 + (Math.random() - 0.5) * amount,
+            saturation: 1 + (Math.random() - 0.5) * amount * 0.5
+          });
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult('Noise approximation applied (Sharp fallback)', output, args);
+      }
+    });
+  }
+};
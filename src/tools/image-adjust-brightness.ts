@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function adjustBrightness(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  return image.modulate({ brightness: 1 + ((args as any).brightness / 100) });
+}
+
+export const imageAdjustBrightness: ToolModule = {
+  definition: {
+    name: 'image_adjust_brightness',
+    description: 'Adjust image brightness',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        brightness: {
+          type: 'number',
+          description: 'Brightness adjustment (-100 to 100)',
+          minimum: -100,
+          maximum: 100
+        }
+      },
+      required: ['input_path', 'brightness']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: adjustBrightness,
+
+  async execute(args) {
+    const { input_path, output_path, brightness } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(adjustBrightness(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Image brightness adjusted by ${brightness}`, output, args);
+  }
+};
@@ -0,0 +1,53 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function adjustContrast(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  const { contrast } = args as any;
+  return image.linear(contrast, -(128 * contrast) + 128);
+}
+
+export const imageAdjustContrast: ToolModule = {
+  definition: {
+    name: 'image_adjust_contrast',
+    description: 'Adjust image contrast',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        contrast: {
+          type: 'number',
+          description: 'Contrast multiplier (0.1 to 3.0, 1.0 = no change)',
+          minimum: 0.1,
+          maximum: 3.0
+        }
+      },
+      required: ['input_path', 'contrast']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: adjustContrast,
+
+  async execute(args) {
+    const { input_path, output_path, contrast } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(adjustContrast(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Image contrast adjusted by ${contrast}`, output, args);
+  }
+};
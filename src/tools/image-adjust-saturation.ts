@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function adjustSaturation(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  return image.modulate({ saturation: (args as any).saturation });
+}
+
+export const imageAdjustSaturation: ToolModule = {
+  definition: {
+    name: 'image_adjust_saturation',
+    description: 'Adjust image saturation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        saturation: {
+          type: 'number',
+          description: 'Saturation multiplier (0.0 to 2.0, 1.0 = no change)',
+          minimum: 0.0,
+          maximum: 2.0
+        }
+      },
+      required: ['input_path', 'saturation']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: adjustSaturation,
+
+  async execute(args) {
+    const { input_path, output_path, saturation } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(adjustSaturation(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Image saturation adjusted by ${saturation}`, output, args);
+  }
+};
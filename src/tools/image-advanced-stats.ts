@@ -0,0 +1,76 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, openVips } from '../io.js';
+import { dataResult } from '../results.js';
+import { backendOptionProperties, statisticsOutputSchema } from '../schemas.js';
+
+export const imageAdvancedStats: ToolModule = {
+  definition: {
+    name: 'image_advanced_stats',
+    description: 'Calculate comprehensive image statistics using wasm-vips',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        ...backendOptionProperties
+      },
+      required: ['input_path']
+    },
+    outputSchema: statisticsOutputSchema
+  },
+
+  vipsOperations: ['min', 'max', 'avg', 'deviate', 'hist_max', 'hist_min', 'hist_mean'],
+
+  async execute(args) {
+    const { input_path } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Advanced statistics',
+
+      vips: async () => {
+        log('debug', '📊 Calculating advanced statistics with wasm-vips...');
+    
+        const image = openVips(input_path);
+        const stats = {
+          // Basic information
+          width: image.width,
+          height: image.height,
+          bands: image.bands,
+          format: image.format,
+          interpretation: image.interpretation,
+      
+          // Statistical measures
+          min: image.min(),
+          max: image.max(),
+          avg: image.avg(),
+          deviate: image.deviate(),
+      
+          // Resolution and metadata
+          xres: image.xres,
+          yres: image.yres,
+          hasProfile: image.getFields().includes('icc-profile-data'),
+          allFields: image.getFields(),
+      
+          // Enhanced with wasm-vips
+          histMax: image.histMax(),
+          histMin: image.histMin(),
+          histMean: image.histMean()
+        };
+    
+        return dataResult(stats, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const metadata = await openSharp(input_path).metadata();
+        const stats = await openSharp(input_path).stats();
+    
+        return dataResult({ metadata, stats }, 'sharp');
+      }
+    });
+  }
+};
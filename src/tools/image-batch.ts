@@ -0,0 +1,165 @@
+import { basename, dirname, extname, normalize, relative } from 'path';
+import { ToolModule } from '../types.js';
+import { expandGlob } from '../glob.js';
+import { validateArguments } from '../validation.js';
+import { checkpoint } from '../progress.js';
+import { CancelledError } from '../errors.js';
+import { dataResult } from '../results.js';
+import { batchOutputSchema } from '../schemas.js';
+import { assertBackendSupported } from '../backends.js';
+import { findTool } from './registry.js';
+
+const MAX_BATCH_FILES = 10000;
+
+// Argument each tool reads its input image from
+const INPUT_ARGUMENTS = ['input_path', 'image_path', 'base_image_path'];
+
+interface BatchFileResult {
+  input: string;
+  output?: string;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// Fill {name}, {ext}, {dir}, {index} and scalar tool arguments such as {width}
+function renderOutputPath(template: string, file: string, base: string, index: number, args: Record<string, any>): string {
+  const ext = extname(file);
+  const values: Record<string, unknown> = {
+    ...args,
+    name: basename(file, ext),
+    ext: ext.slice(1),
+    dir: relative(base, dirname(file)) || '.',
+    index
+  };
+
+  return normalize(template.replace(/\{(\w+)\}/g, (placeholder, key) => {
+    const value = values[key];
+    if (value === undefined || typeof value === 'object') {
+      throw new Error(`Unknown output_path placeholder: ${placeholder}`);
+    }
+    return String(value);
+  }));
+}
+
+export const imageBatch: ToolModule = {
+  definition: {
+    name: 'image_batch',
+    description: 'Apply another tool to every image in a directory or matching a glob, writing outputs from a path template, and report per-file success or failure',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inputs: { type: 'string', description: 'Directory (its images, not recursive) or glob pattern such as "photos/**/*.jpg"' },
+        tool: { type: 'string', description: 'Tool to apply to each image, e.g. "image_thumbnail" or "image_convert"' },
+        arguments: { type: 'object', default: {}, description: 'Arguments for the tool, except the input and output paths' },
+        output_path: {
+          type: 'string',
+          description: 'Output path template, e.g. "out/{name}_{size}.{ext}". Placeholders: {name} (file name without extension), {ext} (input extension), {dir} (directory relative to the batch base), {index} and any scalar tool argument, including defaulted ones. Required for tools that write images'
+        },
+        concurrency: { type: 'integer', default: 4, minimum: 1, maximum: 16, description: 'Number of images processed at once' },
+        stop_on_error: { type: 'boolean', default: false, description: 'Stop at the first failure instead of continuing with the remaining files' }
+      },
+      required: ['inputs', 'tool']
+    },
+    outputSchema: batchOutputSchema
+  },
+
+  imageFree: true,
+
+  async execute(args, context) {
+    const { inputs, tool: toolName, arguments: toolArgs, output_path, concurrency, stop_on_error } = args as any;
+
+    const tool = findTool(toolName);
+    if (!tool || tool === imageBatch) {
+      throw new Error(`Unknown tool for batch processing: ${toolName}`);
+    }
+    assertBackendSupported(tool);
+
+    const properties = (tool.definition.inputSchema.properties || {}) as Record<string, unknown>;
+    const inputArgument = INPUT_ARGUMENTS.find(name => name in properties);
+    if (!inputArgument) {
+      throw new Error(`${toolName} does not take an input image`);
+    }
+    const writesOutput = 'output_path' in properties;
+    if (writesOutput && !output_path) {
+      throw new Error(`output_path template is required for ${toolName}`);
+    }
+    if (!writesOutput && output_path) {
+      throw new Error(`${toolName} does not write an output image`);
+    }
+
+    const { base, files } = expandGlob(inputs, MAX_BATCH_FILES);
+    if (files.length === 0) {
+      throw new Error(`No images found: ${inputs}`);
+    }
+
+    // Resolve every call first so bad arguments or colliding outputs fail before anything is written
+    const calls = files.map((file, index) => {
+      // Validated with the template as output_path, so placeholders are
+      // filled from the arguments with the tool's defaults applied
+      const callArgs = validateArguments(tool.definition, {
+        ...toolArgs,
+        [inputArgument]: file,
+        ...(writesOutput ? { output_path } : {})
+      });
+      if (writesOutput) {
+        callArgs.output_path = renderOutputPath(output_path, file, base, index, callArgs);
+      }
+      return { file, args: callArgs };
+    });
+
+    const outputs = new Set<string>();
+    for (const call of calls) {
+      if (!writesOutput) break;
+      if (outputs.has(call.args.output_path)) {
+        throw new Error(`output_path template maps several files to ${call.args.output_path}; include {name} or {dir}`);
+      }
+      outputs.add(call.args.output_path);
+    }
+
+    // Progress is reported per file, not from within each call
+    const fileContext = { signal: context.signal, progress() {} };
+
+    const results: BatchFileResult[] = new Array(calls.length);
+    let next = 0;
+    let completed = 0;
+    let stopped = false;
+
+    const worker = async () => {
+      while (true) {
+        await checkpoint(context);
+        // Take the next call only once resumed, so two workers never share one
+        if (next >= calls.length || stopped) break;
+        const index = next++;
+        const { file, args: callArgs } = calls[index];
+
+        try {
+          const { structuredContent } = await tool.execute(callArgs, fileContext);
+          results[index] = writesOutput
+            ? { input: file, output: structuredContent.output as string }
+            : { input: file, result: structuredContent };
+        } catch (error) {
+          if (error instanceof CancelledError) throw error;
+          results[index] = { input: file, error: error instanceof Error ? error.message : String(error) };
+          if (stop_on_error) stopped = true;
+        }
+
+        completed++;
+        context.progress(completed, calls.length, basename(file));
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, calls.length) }, worker));
+
+    const processed = results.filter(Boolean);
+    const failed = processed.filter(result => result.error).length;
+
+    return dataResult({
+      message: `${toolName} applied to ${processed.length - failed} of ${calls.length} images` + (failed ? ` (${failed} failed)` : ''),
+      total: calls.length,
+      succeeded: processed.length - failed,
+      failed,
+      skipped: calls.length - processed.length,
+      results: processed
+    });
+  }
+};
@@ -0,0 +1,53 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function blur(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  return image.blur((args as any).sigma);
+}
+
+export const imageBlur: ToolModule = {
+  definition: {
+    name: 'image_blur',
+    description: 'Apply Gaussian blur to an image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        sigma: {
+          type: 'number',
+          description: 'Blur strength (sigma value)',
+          minimum: 0.3,
+          maximum: 1000,
+          default: 1.0
+        }
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: blur,
+
+  async execute(args) {
+    const { input_path, output_path, sigma } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(blur(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Image blurred with sigma ${sigma}`, output, args);
+  }
+};
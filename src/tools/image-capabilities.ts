@@ -0,0 +1,149 @@
+import sharp from 'sharp';
+import { createRequire } from 'module';
+import { ToolModule } from '../types.js';
+import { DEFAULT_BACKEND, DEFAULT_STRICT } from '../backends.js';
+import { initVips } from '../vips.js';
+import { dataResult } from '../results.js';
+import { capabilitiesOutputSchema } from '../schemas.js';
+import { toolModules } from './registry.js';
+
+const require = createRequire(import.meta.url);
+
+// libvips loader/saver prefixes probed in the wasm-vips build
+const VIPS_FORMATS = ['jpeg', 'png', 'webp', 'tiff', 'gif', 'heif', 'jxl', 'svg', 'pdf', 'magick'];
+
+// Encoders that are optional in libvips builds. AVIF and HEIF share the heif
+// saver, so each is checked by encoding a tiny image.
+const SHARP_ENCODERS: Record<string, (image: sharp.Sharp) => sharp.Sharp> = {
+  avif: image => image.avif(),
+  heif: image => image.heif({ compression: 'hevc' }),
+  jxl: image => image.jxl()
+};
+
+const VIPS_ENCODERS: Record<string, string> = {
+  avif: '.avif',
+  heif: '.heic',
+  jxl: '.jxl'
+};
+
+async function sharpEncoders() {
+  const encoders: Record<string, boolean> = {};
+  for (const [format, encode] of Object.entries(SHARP_ENCODERS)) {
+    try {
+      await encode(sharp({ create: { width: 8, height: 8, channels: 3, background: '#000000' } })).toBuffer();
+      encoders[format] = true;
+    } catch {
+      encoders[format] = false;
+    }
+  }
+  return encoders;
+}
+
+function sharpCapabilities(encoders: Record<string, boolean>) {
+  const formats: Record<string, { input: boolean; output: boolean }> = {};
+  for (const [name, format] of Object.entries(sharp.format)) {
+    formats[name] = {
+      input: format.input.file || format.input.buffer,
+      output: format.output.file || format.output.buffer
+    };
+  }
+
+  return {
+    version: sharp.versions.sharp,
+    libvips: sharp.versions.vips,
+    versions: sharp.versions,
+    formats,
+    encoders,
+    // Every tool has a Sharp implementation
+    tools: toolModules.map(module => module.definition.name)
+  };
+}
+
+function vipsCapabilities(vips: any) {
+  const exists = (operation: string) => vips.Utils.typeFind('VipsOperation', operation) !== 0;
+
+  const formats: Record<string, { input: boolean; output: boolean }> = {};
+  for (const format of VIPS_FORMATS) {
+    formats[format] = { input: exists(`${format}load`), output: exists(`${format}save`) };
+  }
+
+  const encoders: Record<string, boolean> = {};
+  for (const [format, suffix] of Object.entries(VIPS_ENCODERS)) {
+    try {
+      vips.Image.black(8, 8).writeToBuffer(suffix);
+      encoders[format] = true;
+    } catch {
+      encoders[format] = false;
+    }
+  }
+
+  const operations: Record<string, boolean> = {};
+  for (const module of toolModules) {
+    for (const operation of module.vipsOperations || []) {
+      operations[operation] = exists(operation);
+    }
+  }
+
+  return {
+    available: true,
+    version: vips.version(),
+    versions: require('wasm-vips/versions'),
+    formats,
+    encoders,
+    operations
+  };
+}
+
+export const imageCapabilities: ToolModule = {
+  definition: {
+    name: 'image_capabilities',
+    description: 'Report the loaded Sharp and wasm-vips versions, supported formats and encoders, available operations per backend, and which tools would fall back to Sharp',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    },
+    outputSchema: capabilitiesOutputSchema
+  },
+
+  imageFree: true,
+
+  async execute() {
+    const sharpReport = sharpCapabilities(await sharpEncoders());
+
+    let vipsReport: Record<string, any>;
+    try {
+      vipsReport = vipsCapabilities(await initVips());
+    } catch (error) {
+      vipsReport = { available: false, error: error instanceof Error ? error.message : String(error), operations: {} };
+    }
+
+    const tools = toolModules.map(module => {
+      const name = module.definition.name;
+      if (!module.vipsOperations) {
+        return { name, backends: ['sharp'], falls_back: false };
+      }
+
+      const missing = module.vipsOperations.filter(operation => !vipsReport.operations[operation]);
+      return {
+        name,
+        backends: ['wasm-vips', 'sharp'],
+        // Under "auto" the call fails on wasm-vips and is retried on Sharp
+        falls_back: missing.length > 0,
+        ...(missing.length > 0 && { missing_operations: missing })
+      };
+    });
+
+    vipsReport.tools = tools
+      .filter(tool => tool.backends.includes('wasm-vips') && !tool.falls_back)
+      .map(tool => tool.name);
+
+    return dataResult({
+      default_backend: DEFAULT_BACKEND,
+      strict: DEFAULT_STRICT,
+      sharp: sharpReport,
+      wasm_vips: vipsReport,
+      fallbacks: tools.filter(tool => tool.falls_back).map(tool => tool.name),
+      tools
+    });
+  }
+};
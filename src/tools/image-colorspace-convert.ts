@@ -0,0 +1,81 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+// Spaces the Sharp implementation converts to exactly
+const SHARP_SPACES = ['srgb', 'rgb', 'lab', 'cmyk'];
+
+// Approximate color space conversions with Sharp
+function convertColorspace(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  switch ((args as any).space) {
+    case 'lab':
+    case 'xyz':
+      return image.toColorspace('lab');
+    case 'cmyk':
+      return image.toColorspace('cmyk');
+    case 'hsv':
+      // HSV approximation using modulate
+      return image.modulate({ hue: 0 });
+    default:
+      return image.toColorspace('srgb');
+  }
+}
+
+export const imageColorspaceConvert: ToolModule = {
+  definition: {
+    name: 'image_colorspace_convert',
+    description: 'Convert between different color spaces',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        space: { 
+          type: 'string',
+          enum: ['srgb', 'rgb', 'cmyk', 'lab', 'xyz', 'scrgb', 'hsv', 'lch'],
+          description: 'Target color space'
+        }
+      },
+      required: ['input_path', 'space']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['colourspace'],
+  applySharp: convertColorspace,
+
+  async execute(args) {
+    const { input_path, output_path, space } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: `Conversion to ${space}`,
+      approximation: SHARP_SPACES.includes(space) ? undefined : `cannot produce ${space} and substitutes another space`,
+
+      vips: async () => {
+        log('debug', `🎨 Converting to ${space} color space with wasm-vips...`);
+    
+        const image = openVips(input_path);
+        const result = image.colourspace(space);
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`Image converted to ${space} color space`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const output = await saveSharp(convertColorspace(openSharp(input_path), args), output_path);
+    
+        return imageResult('Color space conversion applied (Sharp approximation)', output, args);
+      }
+    });
+  }
+};
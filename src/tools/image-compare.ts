@@ -0,0 +1,200 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, saveSharp, comparablePixels, RawPixels } from '../io.js';
+import { dataResult } from '../results.js';
+import { compareOutputSchema } from '../schemas.js';
+
+const CHANNEL_NAMES = ['red', 'green', 'blue', 'alpha'];
+
+// SSIM as defined by Wang et al. (2004): 11x11 Gaussian window with sigma 1.5,
+// K1 = 0.01, K2 = 0.03, images first downsampled so the smaller side is ~256px
+const SSIM_WINDOW = 11;
+const SSIM_SIGMA = 1.5;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+interface Plane {
+  values: Float64Array;
+  width: number;
+  height: number;
+}
+
+function gaussianKernel(size: number, sigma: number): Float64Array {
+  const kernel = new Float64Array(size);
+  const center = (size - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    kernel[i] = Math.exp(-((i - center) ** 2) / (2 * sigma * sigma));
+    sum += kernel[i];
+  }
+  return kernel.map(value => value / sum);
+}
+
+// Separable convolution with edge pixels repeated
+function blur({ values, width, height }: Plane, kernel: Float64Array): Float64Array {
+  const radius = (kernel.length - 1) / 2;
+  const horizontal = new Float64Array(values.length);
+  const result = new Float64Array(values.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k - radius));
+        sum += values[y * width + sx] * kernel[k];
+      }
+      horizontal[y * width + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = 0; k < kernel.length; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k - radius));
+        sum += horizontal[sy * width + x] * kernel[k];
+      }
+      result[y * width + x] = sum;
+    }
+  }
+  return result;
+}
+
+// One channel, averaged over factor x factor blocks
+function channelPlane(pixels: RawPixels, channel: number, factor: number): Plane {
+  const width = Math.floor(pixels.width / factor);
+  const height = Math.floor(pixels.height / factor);
+  const values = new Float64Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          sum += pixels.data[((y * factor + dy) * pixels.width + x * factor + dx) * pixels.channels + channel];
+        }
+      }
+      values[y * width + x] = sum / (factor * factor);
+    }
+  }
+  return { values, width, height };
+}
+
+function ssim(a: Plane, b: Plane, kernel: Float64Array): number {
+  const { width, height } = a;
+  const product = (p: Float64Array, q: Float64Array) => ({ values: p.map((value, i) => value * q[i]), width, height });
+
+  const meanA = blur(a, kernel);
+  const meanB = blur(b, kernel);
+  const meanAA = blur(product(a.values, a.values), kernel);
+  const meanBB = blur(product(b.values, b.values), kernel);
+  const meanAB = blur(product(a.values, b.values), kernel);
+
+  let total = 0;
+  for (let i = 0; i < meanA.length; i++) {
+    const varianceA = meanAA[i] - meanA[i] * meanA[i];
+    const varianceB = meanBB[i] - meanB[i] * meanB[i];
+    const covariance = meanAB[i] - meanA[i] * meanB[i];
+    total += ((2 * meanA[i] * meanB[i] + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+      ((meanA[i] ** 2 + meanB[i] ** 2 + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+  }
+  return total / meanA.length;
+}
+
+// PSNR in dB for 8-bit samples; null for identical images (infinite PSNR)
+function psnr(mse: number): number | null {
+  return mse === 0 ? null : 10 * Math.log10((255 * 255) / mse);
+}
+
+// Black → red → yellow → white
+function heatColor(value: number): [number, number, number] {
+  const v = value * 3;
+  return [Math.min(255, v), Math.min(255, Math.max(0, v - 255)), Math.min(255, Math.max(0, v - 510))];
+}
+
+export const imageCompare: ToolModule = {
+  definition: {
+    name: 'image_compare',
+    description: 'Compare an image against a reference with MSE, PSNR, SSIM and DSSIM, optionally per channel and with a difference heatmap',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Image to assess (e.g. the compressed version): path, img:// handle, data:image/...;base64 URI or raw base64' },
+        reference_path: { type: 'string', description: 'Reference image (e.g. the original), in the same forms as input_path' },
+        per_channel: { type: 'boolean', default: false, description: 'Also report the metrics for each channel' },
+        resize_to_match: { type: 'boolean', default: false, description: 'Resize the input to the reference dimensions instead of failing when they differ' },
+        heatmap_path: { type: 'string', description: 'Write a heatmap of the per-pixel difference here (black = identical, white = the largest difference)' }
+      },
+      required: ['input_path', 'reference_path']
+    },
+    outputSchema: compareOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, reference_path, per_channel, resize_to_match, heatmap_path } = args as any;
+
+    for (const ref of [input_path, reference_path]) {
+      if (!inputExists(ref)) {
+        throw new Error(`Input image not found: ${ref}`);
+      }
+    }
+
+    const { input, reference, resized } = await comparablePixels(input_path, reference_path, Boolean(resize_to_match));
+    const { width, height, channels } = reference;
+    const pixelCount = width * height;
+
+    // Squared error per channel, and the largest per-pixel difference for the heatmap
+    const squaredErrors = new Array(channels).fill(0);
+    const pixelDifference = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      let largest = 0;
+      for (let c = 0; c < channels; c++) {
+        const difference = Math.abs(input.data[i * channels + c] - reference.data[i * channels + c]);
+        squaredErrors[c] += difference * difference;
+        largest = Math.max(largest, difference);
+      }
+      pixelDifference[i] = largest;
+    }
+    const maxDifference = pixelDifference.reduce((max, value) => Math.max(max, value), 0);
+
+    const factor = Math.max(1, Math.round(Math.min(width, height) / 256));
+    const kernel = gaussianKernel(SSIM_WINDOW, SSIM_SIGMA);
+    const channelMetrics = squaredErrors.map((squaredError, c) => {
+      const mse = squaredError / pixelCount;
+      return {
+        channel: CHANNEL_NAMES[c],
+        mse,
+        psnr: psnr(mse),
+        ssim: ssim(channelPlane(input, c, factor), channelPlane(reference, c, factor), kernel)
+      };
+    });
+
+    const mse = channelMetrics.reduce((sum, metric) => sum + metric.mse, 0) / channels;
+    const ssimValue = channelMetrics.reduce((sum, metric) => sum + metric.ssim, 0) / channels;
+
+    let heatmap: string | undefined;
+    if (heatmap_path) {
+      const colors = Buffer.alloc(pixelCount * 3);
+      for (let i = 0; i < pixelCount; i++) {
+        const [r, g, b] = heatColor(maxDifference ? (pixelDifference[i] * 255) / maxDifference : 0);
+        colors[i * 3] = r;
+        colors[i * 3 + 1] = g;
+        colors[i * 3 + 2] = b;
+      }
+      heatmap = await saveSharp(sharp(colors, { raw: { width, height, channels: 3 } }), heatmap_path);
+    }
+
+    return dataResult({
+      identical: maxDifference === 0,
+      width,
+      height,
+      mse,
+      psnr: psnr(mse),
+      ssim: ssimValue,
+      dssim: (1 - ssimValue) / 2,
+      max_difference: maxDifference,
+      ...(per_channel && { channels: channelMetrics }),
+      ...(resized && { resized }),
+      ...(heatmap && { heatmap })
+    }, 'sharp');
+  }
+};
@@ -0,0 +1,70 @@
+import { ToolModule } from '../types.js';
+import { inputExists, compositeInput, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageComposite: ToolModule = {
+  definition: {
+    name: 'image_composite',
+    description: 'Composite two images together with various blend modes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        base_image_path: {
+          type: 'string',
+          description: 'Path to base image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        overlay_image_path: {
+          type: 'string',
+          description: 'Path to overlay image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        x: {
+          type: 'number',
+          description: 'X position of overlay on base image',
+          default: 0
+        },
+        y: {
+          type: 'number',
+          description: 'Y position of overlay on base image',
+          default: 0
+        },
+        blend: {
+          type: 'string',
+          enum: ['over', 'in', 'out', 'atop', 'dest', 'dest-over', 'dest-in', 'dest-out', 'dest-atop', 'xor', 'add', 'saturate', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'colour-dodge', 'colour-burn', 'hard-light', 'soft-light', 'difference', 'exclusion'],
+          description: 'Blend mode for compositing',
+          default: 'over'
+        }
+      },
+      required: ['base_image_path', 'overlay_image_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args) {
+    const { base_image_path, overlay_image_path, output_path, x, y, blend } = args as any;
+    
+    if (!inputExists(base_image_path)) {
+      throw new Error(`Base image not found: ${base_image_path}`);
+    }
+    if (!inputExists(overlay_image_path)) {
+      throw new Error(`Overlay image not found: ${overlay_image_path}`);
+    }
+    
+    const image = openSharp(base_image_path)
+      .composite([{ 
+        ...compositeInput(overlay_image_path), 
+        left: x, 
+        top: y, 
+        blend: blend as any 
+      }]);
+
+    const output = await saveSharp(image, output_path);
+    
+    return imageResult(`Images composited with ${blend} blend mode`, output, args);
+  }
+};
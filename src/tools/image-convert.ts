@@ -0,0 +1,163 @@
+import sharp from 'sharp';
+import { writeFile } from 'fs/promises';
+import { ToolContext, ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp, encodeSharp, writeOutputFile } from '../io.js';
+import { checkpoint } from '../progress.js';
+import { imageResult } from '../results.js';
+import { previewProperties, convertOutputSchema } from '../schemas.js';
+
+// Formats whose quality setting trades size for fidelity, so max_bytes can be honored
+const SIZE_TARGET_FORMATS = ['jpeg', 'webp', 'avif'];
+
+// Lowest quality max_bytes may choose unless min_quality says otherwise
+const DEFAULT_MIN_QUALITY = 30;
+
+// Smallest width tried when downscaling to fit max_bytes
+const MIN_FIT_WIDTH = 16;
+
+interface FittedImage {
+  data: Buffer;
+  quality: number;
+  scale: number;
+}
+
+// Highest quality between minQuality and maxQuality whose output fits maxBytes,
+// found by binary search, or null if even minQuality is too large
+async function searchQuality(image: sharp.Sharp, format: string, maxBytes: number, minQuality: number, maxQuality: number, context: ToolContext) {
+  let best: { data: Buffer; quality: number } | null = null;
+  let smallest = Infinity;
+  let low = minQuality;
+  let high = maxQuality;
+
+  while (low <= high) {
+    await checkpoint(context);
+    const quality = Math.floor((low + high) / 2);
+    const data = await encodeSharp(image.clone(), format, { quality }).toBuffer();
+    smallest = Math.min(smallest, data.length);
+
+    if (data.length <= maxBytes) {
+      best = { data, quality };
+      low = quality + 1;
+    } else {
+      high = quality - 1;
+    }
+  }
+  return { best, smallest };
+}
+
+// Encode at the highest quality that fits maxBytes, downscaling when allowed
+// and even the minimum quality is too large
+async function fitToSize(input: string, format: string, maxBytes: number, minQuality: number, maxQuality: number, downscale: boolean, context: ToolContext): Promise<FittedImage> {
+  const source = openSharp(input);
+  const { width } = await source.metadata();
+  let scale = 1;
+
+  for (;;) {
+    const image = scale === 1 ? source.clone() : source.clone().resize({ width: Math.round(width! * scale), kernel: 'lanczos3' });
+    const { best, smallest } = await searchQuality(image, format, maxBytes, minQuality, maxQuality, context);
+    if (best) {
+      return { ...best, scale };
+    }
+
+    // Encoded size grows roughly with pixel count, so shrink both sides by the square root
+    const nextScale = scale * Math.min(0.9, Math.sqrt(maxBytes / smallest));
+    if (!downscale || width! * nextScale < MIN_FIT_WIDTH) {
+      throw new Error(`Cannot encode ${format} within ${maxBytes} bytes: smallest output is ${smallest} bytes at quality ${minQuality}` +
+        (downscale ? ` and width ${Math.round(width! * scale)}` : '; set allow_downscale to shrink the image'));
+    }
+    scale = nextScale;
+  }
+}
+
+export const imageConvert: ToolModule = {
+  definition: {
+    name: 'image_convert',
+    description: 'Convert image between different formats',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        format: {
+          type: 'string',
+          enum: ['jpeg', 'png', 'webp', 'tiff', 'avif', 'heif', 'gif'],
+          description: 'Target format'
+        },
+        quality: {
+          type: 'number',
+          minimum: 1,
+          maximum: 100,
+          description: 'Quality for lossy formats (1-100)'
+        },
+        compression: {
+          type: 'string',
+          enum: ['none', 'lzw', 'zip', 'packbits'],
+          description: 'TIFF compression scheme (defaults to JPEG compression at the given quality)'
+        },
+        max_bytes: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Largest acceptable file size for JPEG, WebP or AVIF: the highest quality (up to `quality`, default 100) that fits is chosen by binary search and reported'
+        },
+        min_quality: {
+          type: 'number',
+          minimum: 1,
+          maximum: 100,
+          description: 'Lowest quality max_bytes may choose (default 30, or `quality` when that is lower)'
+        },
+        allow_downscale: {
+          type: 'boolean',
+          default: false,
+          description: 'Shrink the image when max_bytes cannot be met at min_quality'
+        }
+      },
+      required: ['input_path', 'format']
+    },
+    outputSchema: convertOutputSchema
+  },
+
+  async execute(args, context) {
+    const { input_path, output_path, format, quality, compression, max_bytes, min_quality, allow_downscale } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    if (max_bytes !== undefined) {
+      if (!SIZE_TARGET_FORMATS.includes(format)) {
+        throw new Error(`max_bytes is supported for ${SIZE_TARGET_FORMATS.join(', ')}, not ${format}`);
+      }
+      // Handles hold decoded pixels, so only a file has an encoded size to limit
+      if (!output_path) {
+        throw new Error('max_bytes requires output_path');
+      }
+
+      const maxQuality = quality ?? 100;
+      if (min_quality !== undefined && min_quality > maxQuality) {
+        throw new Error(`min_quality (${min_quality}) is higher than quality (${maxQuality})`);
+      }
+      const minQuality = min_quality ?? Math.min(DEFAULT_MIN_QUALITY, maxQuality);
+
+      const fitted = await fitToSize(input_path, format, max_bytes, minQuality, maxQuality, allow_downscale, context);
+      await writeOutputFile(output_path, () => writeFile(output_path, fitted.data));
+
+      const result = await imageResult(`Image converted to ${format} within ${max_bytes} bytes at quality ${fitted.quality}` +
+        (fitted.scale < 1 ? `, downscaled to ${Math.round(fitted.scale * 100)}%` : ''), output_path, args);
+      Object.assign(result.structuredContent, { quality: fitted.quality, scale: fitted.scale });
+      return result;
+    }
+
+    const image = encodeSharp(openSharp(input_path), format, { quality, compression });
+    
+    const output = await saveSharp(image, output_path);
+    
+    return imageResult(`Image converted to ${format}`, output, args);
+  }
+};
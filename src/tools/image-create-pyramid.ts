@@ -0,0 +1,71 @@
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { dataResult } from '../results.js';
+import { pyramidOutputSchema } from '../schemas.js';
+import { checkpoint } from '../progress.js';
+import { CancelledError } from '../errors.js';
+
+export const imageCreatePyramid: ToolModule = {
+  definition: {
+    name: 'image_create_pyramid',
+    description: 'Create image pyramid for multi-resolution analysis',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_dir: { type: 'string', description: 'Directory for pyramid levels' },
+        levels: { type: 'integer', default: 4, minimum: 2, maximum: 8, description: 'Number of pyramid levels' },
+        scale_factor: { type: 'number', default: 0.5, minimum: 0.1, maximum: 0.9, description: 'Scale factor between levels' }
+      },
+      required: ['input_path', 'output_dir']
+    },
+    outputSchema: pyramidOutputSchema
+  },
+
+  async execute(args, context) {
+    const { input_path, output_dir, levels, scale_factor } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    try {
+      const metadata = await openSharp(input_path).metadata();
+      let currentWidth = metadata.width!;
+      let currentHeight = metadata.height!;
+      
+      const pyramidFiles = [];
+      
+      for (let level = 0; level < levels; level++) {
+        await checkpoint(context);
+        const outputPath = `${output_dir}/level_${level}.jpg`;
+        
+        await saveSharp(
+          openSharp(input_path).resize(Math.floor(currentWidth), Math.floor(currentHeight)),
+          outputPath
+        );
+        
+        pyramidFiles.push({
+          level,
+          path: outputPath,
+          dimensions: `${Math.floor(currentWidth)}x${Math.floor(currentHeight)}`
+        });
+        
+        context.progress(level + 1, levels, `Level ${level} written`);
+        
+        currentWidth *= scale_factor;
+        currentHeight *= scale_factor;
+      }
+      
+      return dataResult({
+        message: `Image pyramid created with ${levels} levels`,
+        levels: pyramidFiles
+      }, 'sharp');
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      throw new Error(`Failed to create image pyramid: ${error}`);
+    }
+  }
+};
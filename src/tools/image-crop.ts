@@ -0,0 +1,67 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function crop(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  const { x, y, width, height } = args as any;
+  return image.extract({ left: x, top: y, width, height });
+}
+
+export const imageCrop: ToolModule = {
+  definition: {
+    name: 'image_crop',
+    description: 'Crop an image to specified dimensions and position',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        x: {
+          type: 'number',
+          minimum: 0,
+          description: 'X coordinate of crop area (left)'
+        },
+        y: {
+          type: 'number',
+          minimum: 0,
+          description: 'Y coordinate of crop area (top)'
+        },
+        width: {
+          type: 'number',
+          minimum: 1,
+          description: 'Width of crop area'
+        },
+        height: {
+          type: 'number',
+          minimum: 1,
+          description: 'Height of crop area'
+        }
+      },
+      required: ['input_path', 'x', 'y', 'width', 'height']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: crop,
+
+  async execute(args) {
+    const { input_path, output_path } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(crop(openSharp(input_path), args), output_path);
+    
+    return imageResult('Image cropped successfully', output, args);
+  }
+};
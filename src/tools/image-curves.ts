@@ -0,0 +1,113 @@
+import { ToolModule } from '../types.js';
+import { inputExists, saveSharp } from '../io.js';
+import { Lut, LUT_CHANNELS, identityLut, lutFrom, composeLuts, applyLuts } from '../lut.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+type Point = [number, number];
+
+const curveProperty = (description: string) => ({
+  type: 'array',
+  items: {
+    type: 'array',
+    items: { type: 'number', minimum: 0, maximum: 255 },
+    minItems: 2,
+    maxItems: 2
+  },
+  minItems: 2,
+  description
+});
+
+// Smooth curve through the control points that never overshoots between them
+// (monotone cubic, Fritsch-Carlson); flat beyond the first and last point
+function curveLut(points: Point[], name: string): Lut {
+  const sorted = [...points].sort((p, q) => p[0] - q[0]);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i][0] === sorted[i - 1][0]) {
+      throw new Error(`${name} curve has two control points at input level ${sorted[i][0]}`);
+    }
+  }
+
+  const n = sorted.length;
+  const xs = sorted.map(([x]) => x);
+  const ys = sorted.map(([, y]) => y);
+  const slopes = xs.slice(1).map((x, i) => (ys[i + 1] - ys[i]) / (x - xs[i]));
+
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  slopes.forEach((slope, i) => {
+    if (slope === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      return;
+    }
+    const a = tangents[i] / slope;
+    const b = tangents[i + 1] / slope;
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      tangents[i] = (3 * a * slope) / length;
+      tangents[i + 1] = (3 * b * slope) / length;
+    }
+  });
+
+  return lutFrom(level => {
+    if (level <= xs[0]) return ys[0];
+    if (level >= xs[n - 1]) return ys[n - 1];
+
+    let i = 0;
+    while (level > xs[i + 1]) i++;
+    const h = xs[i + 1] - xs[i];
+    const t = (level - xs[i]) / h;
+    return (2 * t ** 3 - 3 * t ** 2 + 1) * ys[i] +
+      (t ** 3 - 2 * t ** 2 + t) * h * tangents[i] +
+      (-2 * t ** 3 + 3 * t ** 2) * ys[i + 1] +
+      (t ** 3 - t ** 2) * h * tangents[i + 1];
+  });
+}
+
+export const imageCurves: ToolModule = {
+  definition: {
+    name: 'image_curves',
+    description: 'Apply tone curves defined by control points, for all channels and/or each channel, through a lookup table',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        points: curveProperty('Curve for all channels as [input, output] pairs (0-255), e.g. [[0, 0], [64, 50], [192, 205], [255, 255]] for more contrast'),
+        red: curveProperty('Red channel curve, applied before the all-channel curve'),
+        green: curveProperty('Green channel curve, applied before the all-channel curve'),
+        blue: curveProperty('Blue channel curve, applied before the all-channel curve')
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, output_path, points } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    const curved = LUT_CHANNELS.filter(channel => (args as any)[channel]);
+    if (!points && curved.length === 0) {
+      throw new Error('Provide points and/or a red, green or blue curve');
+    }
+
+    const master = points ? curveLut(points, 'points') : identityLut();
+    const luts = LUT_CHANNELS.map(channel => {
+      const curve = (args as any)[channel];
+      return curve ? composeLuts(curveLut(curve, channel), master) : master;
+    });
+
+    const output = await saveSharp(await applyLuts(input_path, luts), output_path);
+
+    const applied = [...(points ? ['all-channel'] : []), ...curved];
+    return imageResult(`Curves applied (${applied.join(', ')})`, output, args);
+  }
+};
@@ -0,0 +1,75 @@
+import { ToolModule } from '../types.js';
+import { vips } from '../vips.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageCustomConvolution: ToolModule = {
+  definition: {
+    name: 'image_custom_convolution',
+    description: 'Apply custom convolution kernel for advanced filtering',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        kernel: {
+          type: 'array',
+          items: { type: 'array', items: { type: 'number' } },
+          description: '2D convolution kernel matrix'
+        },
+        scale: { type: 'number', default: 1, description: 'Kernel scale factor' },
+        offset: { type: 'number', default: 0, description: 'Output offset' }
+      },
+      required: ['input_path', 'kernel']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['conv'],
+
+  async execute(args) {
+    const { input_path, output_path, kernel, scale, offset } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Custom convolution',
+
+      vips: async () => {
+        log('debug', '🔧 Applying custom convolution with wasm-vips...');
+    
+        const image = openVips(input_path);
+        const kernelMatrix = vips.Image.newFromArray(kernel, scale, offset);
+        const result = image.conv(kernelMatrix);
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`Custom convolution applied (${kernel.length}x${kernel[0].length} kernel)`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        // Flatten kernel for Sharp
+        const flatKernel = kernel.flat();
+    
+        const image = openSharp(input_path)
+          .convolve({
+            width: kernel[0].length,
+            height: kernel.length,
+            kernel: flatKernel,
+            scale: scale,
+            offset: offset
+          });
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult('Custom convolution applied (Sharp fallback)', output, args);
+      }
+    });
+  }
+};
@@ -0,0 +1,195 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, saveSharp, comparablePixels } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, diffOutputSchema } from '../schemas.js';
+
+interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  pixels: number;
+}
+
+// Grow the changed-pixel mask by radius in every direction (a square dilation),
+// using running counts so the cost does not depend on the radius
+function dilate(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const pass = (source: Uint8Array, length: number, lines: number, index: (line: number, i: number) => number) => {
+    const result = new Uint8Array(source.length);
+    for (let line = 0; line < lines; line++) {
+      let count = 0;
+      for (let i = 0; i < Math.min(radius, length); i++) {
+        count += source[index(line, i)];
+      }
+      for (let i = 0; i < length; i++) {
+        if (i + radius < length) count += source[index(line, i + radius)];
+        if (i - radius - 1 >= 0) count -= source[index(line, i - radius - 1)];
+        result[index(line, i)] = count > 0 ? 1 : 0;
+      }
+    }
+    return result;
+  };
+
+  const horizontal = pass(mask, width, height, (y, x) => y * width + x);
+  return pass(horizontal, height, width, (x, y) => y * width + x);
+}
+
+// Bounding boxes of 8-connected groups in the grouping mask, measured on the
+// changed pixels themselves so the boxes stay tight
+function findRegions(changed: Uint8Array, grouping: Uint8Array, width: number, height: number): Region[] {
+  const labels = new Int32Array(changed.length);
+  const regions: Region[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < grouping.length; start++) {
+    if (!grouping[start] || labels[start]) continue;
+
+    const label = regions.length + 1;
+    let left = width, top = height, right = -1, bottom = -1, pixels = 0;
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      if (changed[index]) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+        pixels++;
+      }
+
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const neighbor = ny * width + nx;
+          if (grouping[neighbor] && !labels[neighbor]) {
+            labels[neighbor] = label;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    regions.push({ left, top, width: right - left + 1, height: bottom - top + 1, pixels });
+  }
+  return regions;
+}
+
+function parseHexColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+    throw new Error(`Invalid highlight_color: ${color}`);
+  }
+  return [parseInt(hex.substr(0, 2), 16), parseInt(hex.substr(2, 2), 16), parseInt(hex.substr(4, 2), 16)];
+}
+
+export const imageDiff: ToolModule = {
+  definition: {
+    name: 'image_diff',
+    description: 'Highlight the pixels that differ between an image and a reference over a dimmed copy of the image, and report how many changed and the bounding boxes of the changed regions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Image to check (e.g. the new screenshot): path, img:// handle, data:image/...;base64 URI or raw base64' },
+        reference_path: { type: 'string', description: 'Reference image (e.g. the approved screenshot), in the same forms as input_path' },
+        output_path: {
+          type: 'string',
+          description: 'Path for the difference image (omit to keep the result in memory and return an img:// handle)'
+        },
+        threshold: {
+          type: 'number',
+          minimum: 0,
+          maximum: 255,
+          default: 16,
+          description: 'A pixel counts as changed when any channel differs by more than this (0-255)'
+        },
+        highlight_color: { type: 'string', default: '#FF00FF', description: 'Color of changed pixels (hex format)' },
+        dim: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          default: 0.3,
+          description: 'Visibility of the grayscale input beneath the highlight (0 = white background, 1 = full contrast)'
+        },
+        merge_distance: {
+          type: 'integer',
+          minimum: 0,
+          default: 8,
+          description: 'Changed pixels this many pixels apart or closer belong to the same region'
+        },
+        min_region_pixels: { type: 'integer', minimum: 1, default: 1, description: 'Ignore regions with fewer changed pixels than this' },
+        max_regions: { type: 'integer', minimum: 1, default: 100, description: 'Report at most this many regions, largest first' },
+        resize_to_match: { type: 'boolean', default: false, description: 'Resize the input to the reference dimensions instead of failing when they differ' },
+        ...previewProperties
+      },
+      required: ['input_path', 'reference_path']
+    },
+    outputSchema: diffOutputSchema
+  },
+
+  async execute(args) {
+    const {
+      input_path, reference_path, output_path, threshold, highlight_color, dim,
+      merge_distance, min_region_pixels, max_regions, resize_to_match
+    } = args as any;
+
+    for (const ref of [input_path, reference_path]) {
+      if (!inputExists(ref)) {
+        throw new Error(`Input image not found: ${ref}`);
+      }
+    }
+    const highlight = parseHexColor(highlight_color);
+
+    const { input, reference, resized } = await comparablePixels(input_path, reference_path, Boolean(resize_to_match));
+    const { width, height, channels } = reference;
+    const pixelCount = width * height;
+
+    const changed = new Uint8Array(pixelCount);
+    const output = Buffer.alloc(pixelCount * 3);
+    let changedCount = 0;
+    for (let i = 0; i < pixelCount; i++) {
+      let largest = 0;
+      for (let c = 0; c < channels; c++) {
+        largest = Math.max(largest, Math.abs(input.data[i * channels + c] - reference.data[i * channels + c]));
+      }
+
+      if (largest > threshold) {
+        changed[i] = 1;
+        changedCount++;
+        output.set(highlight, i * 3);
+      } else {
+        // Rec. 601 luma of the input, faded towards white
+        const p = i * channels;
+        const luma = 0.299 * input.data[p] + 0.587 * input.data[p + 1] + 0.114 * input.data[p + 2];
+        output.fill(Math.round(255 - (255 - luma) * dim), i * 3, i * 3 + 3);
+      }
+    }
+
+    const grouping = merge_distance > 0 ? dilate(changed, width, height, Math.ceil((merge_distance - 1) / 2)) : changed;
+    const regions = findRegions(changed, grouping, width, height)
+      .filter(region => region.pixels >= min_region_pixels)
+      .sort((a, b) => b.pixels - a.pixels);
+
+    const saved = await saveSharp(sharp(output, { raw: { width, height, channels: 3 } }), output_path);
+    const percent = Math.round((changedCount / pixelCount) * 100000) / 1000;
+
+    const result = await imageResult(
+      changedCount === 0
+        ? 'No differences found'
+        : `${changedCount} pixels (${percent}%) differ in ${regions.length} region${regions.length === 1 ? '' : 's'}`,
+      saved,
+      args
+    );
+    Object.assign(result.structuredContent, {
+      different_pixels: changedCount,
+      different_percent: percent,
+      region_count: regions.length,
+      regions: regions.slice(0, max_regions),
+      ...(resized && { resized })
+    });
+    return result;
+  }
+};
@@ -0,0 +1,48 @@
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageDrawCircle: ToolModule = {
+  definition: {
+    name: 'image_draw_circle',
+    description: 'Draw a circle on the image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        x: { type: 'number', description: 'Center X coordinate' },
+        y: { type: 'number', description: 'Center Y coordinate' },
+        radius: { type: 'number', minimum: 0, description: 'Circle radius in pixels' },
+        fill: { type: 'boolean', default: false, description: 'Whether to fill the circle' },
+        color: { type: 'string', default: '#000000', description: 'Circle color (hex format)' }
+      },
+      required: ['input_path', 'x', 'y', 'radius']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, output_path, x, y, radius, fill, color } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const { width: imgWidth, height: imgHeight } = await openSharp(input_path).metadata();
+    
+    // Create SVG circle overlay
+    const svg = `<svg width="${imgWidth}" height="${imgHeight}" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="${x}" cy="${y}" r="${radius}" stroke="${color}" ${fill ? `fill="${color}"` : 'fill="none"'} stroke-width="2"/>
+    </svg>`;
+    
+    const image = openSharp(input_path)
+      .composite([{ input: Buffer.from(svg), blend: 'over' }]);
+
+    const output = await saveSharp(image, output_path);
+    
+    return imageResult(`${fill ? 'Filled ' : ''}Circle drawn at (${x},${y}) radius ${radius}`, output, args);
+  }
+};
@@ -0,0 +1,79 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageDrawLine: ToolModule = {
+  definition: {
+    name: 'image_draw_line',
+    description: 'Draw a line on the image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        x1: { type: 'number', description: 'Start X coordinate' },
+        y1: { type: 'number', description: 'Start Y coordinate' },
+        x2: { type: 'number', description: 'End X coordinate' },
+        y2: { type: 'number', description: 'End Y coordinate' },
+        color: { type: 'string', default: '#000000', description: 'Line color (hex format)' },
+        width: { type: 'number', default: 1, minimum: 1, description: 'Line width in pixels' }
+      },
+      required: ['input_path', 'x1', 'y1', 'x2', 'y2']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['draw_line'],
+
+  async execute(args) {
+    const { input_path, output_path, x1, y1, x2, y2, color, width: lineWidth } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Line drawing',
+
+      vips: async () => {
+        log('debug', '✏️ Drawing line with wasm-vips...');
+    
+        // Convert hex color to RGB array
+        const hex = color.replace('#', '');
+        const colorArray = [
+          parseInt(hex.substr(0, 2), 16),
+          parseInt(hex.substr(2, 2), 16),
+          parseInt(hex.substr(4, 2), 16)
+        ];
+    
+        // Drawing operations modify the image in place, so work on a memory copy
+        const result = openVips(input_path).copyMemory();
+        result.drawLine(colorArray, x1, y1, x2, y2);
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`Line drawn from (${x1},${y1}) to (${x2},${y2}) with color ${color}`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const { width: imgWidth, height: imgHeight } = await openSharp(input_path).metadata();
+    
+        // Create a simple line using SVG overlay
+        const svg = `<svg width="${imgWidth}" height="${imgHeight}" xmlns="http://www.w3.org/2000/svg">
+          <line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="${lineWidth}"/>
+        </svg>`;
+    
+        const image = openSharp(input_path)
+          .composite([{ input: Buffer.from(svg), blend: 'over' }]);
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult(`Line drawn from (${x1},${y1}) to (${x2},${y2}) (Sharp SVG)`, output, args);
+      }
+    });
+  }
+};
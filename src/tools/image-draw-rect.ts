@@ -0,0 +1,49 @@
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageDrawRect: ToolModule = {
+  definition: {
+    name: 'image_draw_rect',
+    description: 'Draw a rectangle on the image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        left: { type: 'number', description: 'Left edge X coordinate' },
+        top: { type: 'number', description: 'Top edge Y coordinate' },
+        width: { type: 'number', minimum: 1, description: 'Rectangle width in pixels' },
+        height: { type: 'number', minimum: 1, description: 'Rectangle height in pixels' },
+        fill: { type: 'boolean', default: false, description: 'Whether to fill the rectangle' },
+        color: { type: 'string', default: '#000000', description: 'Rectangle color (hex format)' }
+      },
+      required: ['input_path', 'left', 'top', 'width', 'height']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, output_path, left, top, width, height, fill, color } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    const { width: imgWidth, height: imgHeight } = await openSharp(input_path).metadata();
+
+    // Create SVG rectangle overlay
+    const svg = `<svg width="${imgWidth}" height="${imgHeight}" xmlns="http://www.w3.org/2000/svg">
+      <rect x="${left}" y="${top}" width="${width}" height="${height}" stroke="${color}" ${fill ? `fill="${color}"` : 'fill="none"'} stroke-width="2"/>
+    </svg>`;
+
+    const image = openSharp(input_path)
+      .composite([{ input: Buffer.from(svg), blend: 'over' }]);
+
+    const output = await saveSharp(image, output_path);
+
+    return imageResult(`${fill ? 'Filled ' : ''}Rectangle drawn at (${left},${top}) size ${width}x${height}`, output, args);
+  }
+};
@@ -0,0 +1,90 @@
+import { ToolModule } from '../types.js';
+import { vips } from '../vips.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageEdgeDetection: ToolModule = {
+  definition: {
+    name: 'image_edge_detection',
+    description: 'Apply edge detection algorithms',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        method: { 
+          type: 'string', 
+          enum: ['sobel', 'prewitt', 'roberts', 'laplacian'],
+          description: 'Edge detection method to use'
+        },
+        threshold: { type: 'number', default: 128, description: 'Edge threshold (0-255)' }
+      },
+      required: ['input_path', 'method']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['conv'],
+
+  async execute(args) {
+    const { input_path, output_path, method, threshold } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: `${method} edge detection`,
+      approximation: 'applies a fixed Laplacian filter whatever the method',
+
+      vips: async () => {
+        log('debug', `🔍 Applying ${method} edge detection with wasm-vips...`);
+    
+        const image = openVips(input_path);
+    
+        let kernel: number[][];
+        switch (method) {
+          case 'sobel':
+            kernel = [[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]];
+            break;
+          case 'prewitt':
+            kernel = [[-1, 0, 1], [-1, 0, 1], [-1, 0, 1]];
+            break;
+          case 'roberts':
+            kernel = [[1, 0], [0, -1]];
+            break;
+          case 'laplacian':
+            kernel = [[0, -1, 0], [-1, 4, -1], [0, -1, 0]];
+            break;
+          default:
+            throw new Error(`Unknown edge detection method: ${method}`);
+        }
+    
+        const kernelMatrix = vips.Image.newFromArray(kernel);
+        const result = image.conv(kernelMatrix);
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`${method} edge detection applied`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const image = openSharp(input_path)
+          .grayscale()
+          .convolve({
+            width: 3,
+            height: 3,
+            kernel: [-1, -1, -1, -1, 8, -1, -1, -1, -1]
+          });
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult('Edge detection applied (Sharp fallback)', output, args);
+      }
+    });
+  }
+};
@@ -0,0 +1,164 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips, rawPixels } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+import { rgbToLab, labToRgb } from '../color.js';
+
+// Color images are equalized on Lab lightness, scaled to 0-255, so hue and
+// saturation are preserved; grayscale images are equalized directly
+const LIGHTNESS_SCALE = 2.55;
+
+// Map each level through the cumulative histogram scaled to 0-255, as libvips
+// hist_equal does
+function equalizeLevels(plane: Buffer): Buffer {
+  const counts = new Uint32Array(256);
+  for (const value of plane) counts[value]++;
+
+  const lookup = new Uint8Array(256);
+  let cumulative = 0;
+  counts.forEach((count, level) => {
+    cumulative += count;
+    lookup[level] = Math.round((cumulative / plane.length) * 255);
+  });
+  return Buffer.from(plane.map(value => lookup[value]));
+}
+
+export const imageEqualize: ToolModule = {
+  definition: {
+    name: 'image_equalize',
+    description: 'Equalize the histogram of an image, globally or with contrast-limited adaptive equalization (CLAHE), on luminance only for color images',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        method: {
+          type: 'string',
+          enum: ['global', 'clahe'],
+          default: 'global',
+          description: 'global (one mapping for the whole image) or clahe (adapts to each neighborhood, brings out detail in dark and bright areas)'
+        },
+        tile_size: {
+          type: 'integer',
+          minimum: 1,
+          default: 64,
+          description: 'CLAHE: width and height in pixels of the neighborhood each pixel is equalized over'
+        },
+        clip_limit: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 100,
+          default: 3,
+          description: 'CLAHE: maximum contrast amplification (slope of the mapping); 0 disables the limit'
+        }
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['hist_equal', 'hist_local'],
+
+  async execute(args) {
+    const { input_path, output_path, method, tile_size, clip_limit } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    const description = method === 'clahe'
+      ? `CLAHE applied (${tile_size}px tiles, clip limit ${clip_limit})`
+      : 'Histogram equalized';
+
+    return runWithBackend(args, {
+      capability: 'Histogram equalization',
+
+      vips: async () => {
+        let image = openVips(input_path);
+        const alpha = image.hasAlpha() ? image.extractBand(image.bands - 1) : null;
+        if (alpha) {
+          image = image.extractBand(0, { n: image.bands - 1 });
+        }
+
+        const equalize = (plane: any) => method === 'clahe'
+          ? plane.histLocal(tile_size, tile_size, { max_slope: clip_limit })
+          : plane.histEqual();
+
+        let result;
+        if (image.bands === 1) {
+          result = equalize(image.colourspace('b-w').cast('uchar'));
+        } else {
+          const lab = image.colourspace('lab');
+          const lightness = equalize(lab.extractBand(0).multiply(LIGHTNESS_SCALE).cast('uchar'));
+          result = lightness.cast('float').divide(LIGHTNESS_SCALE)
+            .bandjoin(lab.extractBand(1, { n: 2 }))
+            .copy({ interpretation: 'lab' })
+            .colourspace('srgb');
+        }
+        if (alpha) {
+          result = result.bandjoin(alpha.cast('uchar'));
+        }
+
+        const output = await saveVips(result, output_path);
+        return imageResult(description, output, args, 'wasm-vips');
+      },
+
+      // Sharp's clahe() is libvips hist_local, so both engines give the same result
+      sharp: async () => {
+        const { channels: inputChannels, hasAlpha } = await openSharp(input_path).metadata();
+        const gray = inputChannels! - (hasAlpha ? 1 : 0) === 1;
+        // Raw output is always sRGB, gray images included, with any alpha last
+        const { data, width, height, channels } = await rawPixels(openSharp(input_path).toColourspace('srgb'));
+        const pixelCount = width * height;
+
+        // Lightness plane, keeping a and b to rebuild the color afterwards
+        const plane = Buffer.alloc(pixelCount);
+        const chroma = gray ? null : new Float32Array(pixelCount * 2);
+        for (let i = 0; i < pixelCount; i++) {
+          const p = i * channels;
+          if (chroma) {
+            const [l, a, b] = rgbToLab(data[p], data[p + 1], data[p + 2]);
+            plane[i] = Math.round(l * LIGHTNESS_SCALE);
+            chroma[i * 2] = a;
+            chroma[i * 2 + 1] = b;
+          } else {
+            plane[i] = data[p];
+          }
+        }
+
+        const equalized = method === 'clahe'
+          ? await sharp(plane, { raw: { width, height, channels: 1 } })
+            .clahe({ width: tile_size, height: tile_size, maxSlope: clip_limit })
+            .toColourspace('b-w')
+            .raw()
+            .toBuffer()
+          : equalizeLevels(plane);
+
+        let result: sharp.Sharp;
+        if (chroma) {
+          // Start from a copy so alpha is kept unchanged
+          const pixels = Buffer.from(data);
+          for (let i = 0; i < pixelCount; i++) {
+            pixels.set(labToRgb([equalized[i] / LIGHTNESS_SCALE, chroma[i * 2], chroma[i * 2 + 1]]), i * channels);
+          }
+          result = sharp(pixels, { raw: { width, height, channels } });
+        } else {
+          const outputChannels = hasAlpha ? 2 : 1;
+          const pixels = Buffer.alloc(pixelCount * outputChannels);
+          for (let i = 0; i < pixelCount; i++) {
+            pixels[i * outputChannels] = equalized[i];
+            if (hasAlpha) pixels[i * 2 + 1] = data[i * channels + channels - 1];
+          }
+          result = sharp(pixels, { raw: { width, height, channels: outputChannels } }).toColourspace('b-w');
+        }
+
+        const output = await saveSharp(result, output_path);
+        return imageResult(description, output, args);
+      }
+    });
+  }
+};
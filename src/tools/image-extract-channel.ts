@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function extractChannel(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  return image.extractChannel((args as any).channel);
+}
+
+export const imageExtractChannel: ToolModule = {
+  definition: {
+    name: 'image_extract_channel',
+    description: 'Extract a specific channel from an image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        channel: {
+          type: 'integer',
+          description: 'Channel index to extract (0=Red, 1=Green, 2=Blue, 3=Alpha)',
+          minimum: 0,
+          maximum: 3
+        }
+      },
+      required: ['input_path', 'channel']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: extractChannel,
+
+  async execute(args) {
+    const { input_path, output_path, channel } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(extractChannel(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Channel ${channel} extracted`, output, args);
+  }
+};
@@ -0,0 +1,69 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { checkpoint, trackVipsProgress } from '../progress.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageFft: ToolModule = {
+  definition: {
+    name: 'image_fft',
+    description: 'Apply Fast Fourier Transform for frequency domain analysis',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        inverse: { type: 'boolean', default: false, description: 'Apply inverse FFT' }
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['fwfft', 'invfft', 'abs'],
+
+  async execute(args, context) {
+    const { input_path, output_path, inverse } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Fourier transform',
+      approximation: 'applies an edge-enhancement filter instead of a Fourier transform',
+
+      vips: async () => {
+        log('debug', `🔬 Applying ${inverse ? 'inverse ' : ''}FFT with wasm-vips...`);
+    
+        const image = openVips(input_path);
+        const result = inverse ? image.invfft() : image.fwfft();
+    
+        // For display purposes, convert complex to magnitude
+        const displayResult = result.abs ? result.abs() : result;
+        await checkpoint(context);
+        trackVipsProgress(displayResult, context, 'Computing FFT');
+        const output = await saveVips(displayResult, output_path);
+    
+        return imageResult(`${inverse ? 'Inverse ' : ''}FFT applied successfully`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const image = openSharp(input_path)
+          .convolve({
+            width: 3,
+            height: 3,
+            kernel: [0, -1, 0, -1, 5, -1, 0, -1, 0]
+          });
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult('Edge enhancement applied (FFT fallback)', output, args);
+      }
+    });
+  }
+};
@@ -0,0 +1,147 @@
+import { statSync } from 'fs';
+import { basename } from 'path';
+import { ToolModule } from '../types.js';
+import { openSharp } from '../io.js';
+import { expandGlob } from '../glob.js';
+import { HASH_ALGORITHMS, imageHash, hashWords, hammingDistance } from '../phash.js';
+import { checkpoint } from '../progress.js';
+import { dataResult } from '../results.js';
+import { duplicatesOutputSchema } from '../schemas.js';
+
+const MAX_SCAN_FILES = 10000;
+const HASH_CONCURRENCY = 4;
+
+interface HashedFile {
+  path: string;
+  hash: string;
+  words: [number, number];
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+// Union-find over file indices, so near-duplicates group transitively
+function groupIndices(files: HashedFile[], threshold: number): number[][] {
+  const parent = files.map((_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      if (hammingDistance(files[i].words, files[j].words) <= threshold) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  files.forEach((_, i) => {
+    const group = groups.get(root(i)) || [];
+    group.push(i);
+    groups.set(root(i), group);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+export const imageFindDuplicates: ToolModule = {
+  definition: {
+    name: 'image_find_duplicates',
+    description: 'Hash every image in a directory or matching a glob and group near-duplicates (e.g. the same photo re-uploaded at different sizes) by Hamming distance',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inputs: { type: 'string', description: 'Directory (its images, not recursive) or glob pattern such as "assets/**/*.{jpg,png}"' },
+        algorithm: {
+          type: 'string',
+          enum: HASH_ALGORITHMS,
+          default: 'phash',
+          description: 'Perceptual hash to compare, as in image_phash'
+        },
+        threshold: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 64,
+          default: 8,
+          description: 'Images whose hashes differ in at most this many of the 64 bits are duplicates (0 = identical hashes)'
+        }
+      },
+      required: ['inputs']
+    },
+    outputSchema: duplicatesOutputSchema
+  },
+
+  async execute(args, context) {
+    const { inputs, algorithm, threshold } = args as any;
+
+    const { files } = expandGlob(inputs, MAX_SCAN_FILES);
+    if (files.length === 0) {
+      throw new Error(`No images found: ${inputs}`);
+    }
+
+    const hashed: HashedFile[] = [];
+    const errors: { path: string; error: string }[] = [];
+    let next = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (true) {
+        await checkpoint(context);
+        // Claim the file after the await, when no other worker can take it
+        if (next >= files.length) break;
+        const path = files[next++];
+
+        try {
+          const hash = await imageHash(path, algorithm);
+          const { width, height } = await openSharp(path).metadata();
+          hashed.push({ path, hash, words: hashWords(hash), width: width!, height: height!, bytes: statSync(path).size });
+        } catch (error) {
+          errors.push({ path, error: error instanceof Error ? error.message : String(error) });
+        }
+
+        completed++;
+        context.progress(completed, files.length, basename(path));
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(HASH_CONCURRENCY, files.length) }, worker));
+    await checkpoint(context);
+
+    // Workers finish out of order; sort so results are stable
+    hashed.sort((a, b) => a.path.localeCompare(b.path));
+
+    const groups = groupIndices(hashed, threshold)
+      .map(group => {
+        // Keep the highest resolution, then the largest file
+        const members = group.map(i => hashed[i])
+          .sort((a, b) => b.width * b.height - a.width * a.height || b.bytes - a.bytes);
+        const keep = members[0];
+        return {
+          keep: keep.path,
+          files: members.map(({ path, hash, words, width, height, bytes }) => ({
+            path,
+            width,
+            height,
+            bytes,
+            hash,
+            distance: hammingDistance(keep.words, words)
+          }))
+        };
+      })
+      .sort((a, b) => b.files.length - a.files.length);
+
+    const duplicates = groups.reduce((sum, group) => sum + group.files.length - 1, 0);
+
+    return dataResult({
+      message: `Found ${duplicates} duplicates in ${groups.length} groups among ${hashed.length} images`,
+      scanned: hashed.length,
+      duplicates,
+      groups,
+      ...(errors.length > 0 && { errors })
+    }, 'sharp');
+  }
+};
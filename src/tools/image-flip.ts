@@ -0,0 +1,51 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function flip(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  return (args as any).direction === 'horizontal' ? image.flop() : image.flip();
+}
+
+export const imageFlip: ToolModule = {
+  definition: {
+    name: 'image_flip',
+    description: 'Flip an image horizontally or vertically',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        direction: {
+          type: 'string',
+          enum: ['horizontal', 'vertical'],
+          description: 'Direction to flip the image'
+        }
+      },
+      required: ['input_path', 'direction']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: flip,
+
+  async execute(args) {
+    const { input_path, output_path, direction } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(flip(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Image flipped ${direction}ly`, output, args);
+  }
+};
@@ -0,0 +1,77 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageFloodFill: ToolModule = {
+  definition: {
+    name: 'image_flood_fill',
+    description: 'Fill connected regions with specified color',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        x: { type: 'integer', minimum: 0, description: 'Starting X coordinate' },
+        y: { type: 'integer', minimum: 0, description: 'Starting Y coordinate' },
+        fill_color: { type: 'string', default: '#FF0000', description: 'Fill color (hex format)' },
+        tolerance: { type: 'number', default: 10, minimum: 0, description: 'Color tolerance for filling' }
+      },
+      required: ['input_path', 'x', 'y']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['floodfill'],
+
+  async execute(args) {
+    const { input_path, output_path, x, y, fill_color, tolerance } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Flood fill',
+      approximation: 'draws a 50px circle at the seed point instead of filling the region',
+
+      vips: async () => {
+        log('debug', '🌊 Applying flood fill with wasm-vips...');
+    
+        // Convert hex color to RGB
+        const hex = fill_color.replace('#', '');
+        const fillRGB = [
+          parseInt(hex.substr(0, 2), 16),
+          parseInt(hex.substr(2, 2), 16),
+          parseInt(hex.substr(4, 2), 16)
+        ];
+    
+        const image = openVips(input_path);
+        const result = image.floodfill(fillRGB, x, y, { tolerance });
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`Flood fill applied at (${x},${y}) with color ${fill_color}`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const { width: imgWidth, height: imgHeight } = await openSharp(input_path).metadata();
+    
+        // Approximate with a filled circle
+        const svg = `<svg width="${imgWidth}" height="${imgHeight}" xmlns="http://www.w3.org/2000/svg">
+          <circle cx="${x}" cy="${y}" r="50" fill="${fill_color}"/>
+        </svg>`;
+    
+        const image = openSharp(input_path)
+          .composite([{ input: Buffer.from(svg), blend: 'over' }]);
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult('Circle overlay applied (flood fill approximation)', output, args);
+      }
+    });
+  }
+};
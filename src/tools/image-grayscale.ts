@@ -0,0 +1,46 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function grayscale(image: sharp.Sharp): sharp.Sharp {
+  return image.grayscale();
+}
+
+export const imageGrayscale: ToolModule = {
+  definition: {
+    name: 'image_grayscale',
+    description: 'Convert image to grayscale',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: grayscale,
+
+  async execute(args) {
+    const { input_path, output_path } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(grayscale(openSharp(input_path)), output_path);
+    
+    return imageResult('Image converted to grayscale', output, args);
+  }
+};
@@ -0,0 +1,194 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp, rawPixels } from '../io.js';
+import { dataResult } from '../results.js';
+import { histogramOutputSchema } from '../schemas.js';
+import { lightness } from '../color.js';
+
+const LEVELS = 256;
+const DEFAULT_PERCENTILES = [1, 5, 25, 50, 75, 95, 99];
+
+const CHANNEL_NAMES: Record<number, string[]> = {
+  1: ['gray'],
+  2: ['gray', 'alpha'],
+  3: ['red', 'green', 'blue'],
+  4: ['red', 'green', 'blue', 'alpha']
+};
+
+const CHART_WIDTH = 512;
+const CHART_HEIGHT = 200;
+const CHART_COLORS: Record<string, string> = {
+  red: '#e03030',
+  green: '#30a030',
+  blue: '#3050e0'
+};
+
+interface LevelCounts {
+  name: string;
+  counts: Uint32Array;
+  total: number;
+}
+
+// Level counts (0-255) per channel, or of one luminance/lightness channel.
+// Fully transparent pixels are left out of luminance and lightness.
+async function countLevels(ref: string, mode: string): Promise<LevelCounts[]> {
+  if (mode === 'channels') {
+    const { data, channels } = await rawPixels(openSharp(ref));
+    return Array.from({ length: channels }, (_, c) => {
+      const counts = new Uint32Array(LEVELS);
+      for (let i = c; i < data.length; i += channels) {
+        counts[data[i]]++;
+      }
+      return { name: CHANNEL_NAMES[channels]?.[c] || `channel_${c}`, counts, total: data.length / channels };
+    });
+  }
+
+  const { data } = await rawPixels(openSharp(ref).toColourspace('srgb').ensureAlpha());
+  const counts = new Uint32Array(LEVELS);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const level = mode === 'lightness'
+      ? Math.round(lightness(data[i], data[i + 1], data[i + 2]) * 2.55)
+      : Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]);
+    counts[level]++;
+    total++;
+  }
+  return [{ name: mode, counts, total }];
+}
+
+// Statistics, bins and percentiles of one channel, in units of `scale` per level
+function summarize({ name, counts, total }: LevelCounts, index: number, scale: number, bins: number, percentiles: number[], cumulative: boolean) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  let min = -1, max = -1, sum = 0, squares = 0;
+  const binned = new Array(bins).fill(0);
+  counts.forEach((count, level) => {
+    if (count === 0) return;
+    if (min < 0) min = level;
+    max = level;
+    sum += level * count;
+    squares += level * level * count;
+    binned[Math.floor((level * bins) / LEVELS)] += count;
+  });
+  const mean = total ? sum / total : 0;
+
+  // Smallest level at or below which at least p% of the pixels fall
+  const values: Record<string, number> = {};
+  for (const p of percentiles) {
+    const target = Math.max(1, (p / 100) * total);
+    let seen = 0;
+    let level = 0;
+    while (level < LEVELS - 1 && seen + counts[level] < target) {
+      seen += counts[level++];
+    }
+    values[`p${p}`] = round(level * scale);
+  }
+
+  let running = 0;
+  return {
+    channel: index,
+    name,
+    min: round(Math.max(min, 0) * scale),
+    max: round(Math.max(max, 0) * scale),
+    mean: round(mean * scale),
+    stdev: round(Math.sqrt(Math.max(0, (total ? squares / total : 0) - mean * mean)) * scale),
+    counts: binned,
+    ...(cumulative && {
+      cumulative: binned.map(count => {
+        running += count;
+        return total ? Math.round((running / total) * 10000) / 10000 : 0;
+      })
+    }),
+    percentiles: values,
+    // Shares of pixels at the darkest and brightest level, for exposure checks
+    clipped_low: total ? Math.round((counts[0] / total) * 10000) / 10000 : 0,
+    clipped_high: total ? Math.round((counts[LEVELS - 1] / total) * 10000) / 10000 : 0
+  };
+}
+
+// Overlaid area chart of the binned counts, one color per channel. Alpha is
+// left out: it is usually a single spike that would flatten everything else.
+function chartSvg(channels: { name: string; counts: number[] }[]): string {
+  const series = channels.filter(({ name }) => name !== 'alpha');
+  const peak = Math.max(1, ...series.flatMap(({ counts }) => counts));
+  const paths = series.map(({ name, counts }) => {
+    const step = CHART_WIDTH / counts.length;
+    const points = counts.flatMap((count, i) => {
+      const y = (CHART_HEIGHT - (count / peak) * CHART_HEIGHT).toFixed(1);
+      return [`L${(i * step).toFixed(1)},${y}`, `L${((i + 1) * step).toFixed(1)},${y}`];
+    });
+    const color = CHART_COLORS[name] || '#404040';
+    return `<path d="M0,${CHART_HEIGHT} ${points.join(' ')} L${CHART_WIDTH},${CHART_HEIGHT} Z" fill="${color}" fill-opacity="0.45" stroke="${color}"/>`;
+  });
+
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" xmlns="http://www.w3.org/2000/svg">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>${paths.join('')}</svg>`;
+}
+
+export const imageHistogram: ToolModule = {
+  definition: {
+    name: 'image_histogram',
+    description: 'Compute a binned histogram per channel, or of luminance or Lab lightness, with statistics, percentiles, clipping and an optional chart',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        bins: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 256,
+          description: 'Number of histogram bins over the 256 levels',
+          default: 256
+        },
+        mode: {
+          type: 'string',
+          enum: ['channels', 'luminance', 'lightness'],
+          default: 'channels',
+          description: 'channels (one histogram per channel, 0-255), luminance (Rec. 709 luma, 0-255) or lightness (CIE L*, 0-100)'
+        },
+        cumulative: { type: 'boolean', default: false, description: 'Also return the cumulative share of pixels per bin (0-1)' },
+        percentiles: {
+          type: 'array',
+          items: { type: 'number', minimum: 0, maximum: 100 },
+          default: DEFAULT_PERCENTILES,
+          description: 'Percentiles to report, e.g. [1, 50, 99]'
+        },
+        chart_path: { type: 'string', description: 'Render the histogram as a chart image here (e.g. a .png path)' }
+      },
+      required: ['input_path']
+    },
+    outputSchema: histogramOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, bins, mode, cumulative, percentiles, chart_path } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    const [levels, stats] = await Promise.all([countLevels(input_path, mode), openSharp(input_path).stats()]);
+    const scale = mode === 'lightness' ? 100 / 255 : 1;
+    const channels = levels.map((channel, index) => summarize(channel, index, scale, bins, percentiles, cumulative));
+
+    let chart: string | undefined;
+    if (chart_path) {
+      chart = await saveSharp(sharp(Buffer.from(chartSvg(channels))), chart_path);
+    }
+
+    return dataResult({
+      mode,
+      bins,
+      bin_width: Math.round((LEVELS / bins) * scale * 100) / 100,
+      channels,
+      isOpaque: stats.isOpaque,
+      entropy: stats.entropy,
+      dominantColor: stats.dominant,
+      ...(chart && { chart })
+    }, 'sharp');
+  }
+};
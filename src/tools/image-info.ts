@@ -0,0 +1,36 @@
+import { ToolModule } from '../types.js';
+import { inputExists, getImageInfo } from '../io.js';
+import { dataResult } from '../results.js';
+import { imageInfoOutputSchema } from '../schemas.js';
+
+export const imageInfo: ToolModule = {
+  definition: {
+    name: 'image_info',
+    description: 'Get detailed information about an image file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        image_path: {
+          type: 'string',
+          description: 'Path to the image file, img:// handle, data:image/...;base64 URI or raw base64'
+        }
+      },
+      required: ['image_path']
+    },
+    outputSchema: imageInfoOutputSchema
+  },
+
+  imageFree: true,
+
+  async execute(args) {
+    const { image_path } = args as { image_path: string };
+    
+    if (!inputExists(image_path)) {
+      throw new Error(`Image file not found: ${image_path}`);
+    }
+    
+    const info = await getImageInfo(image_path);
+    
+    return dataResult(info, 'sharp');
+  }
+};
@@ -0,0 +1,84 @@
+import { ToolModule } from '../types.js';
+import { inputExists, saveSharp } from '../io.js';
+import { LUT_CHANNELS, lutFrom, applyLuts } from '../lut.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+interface LevelsSettings {
+  black_point: number;
+  white_point: number;
+  gamma: number;
+  output_black: number;
+  output_white: number;
+}
+
+const levelsProperties = {
+  black_point: { type: 'number', minimum: 0, maximum: 255, default: 0, description: 'Input level mapped to output_black; darker levels are clipped' },
+  white_point: { type: 'number', minimum: 0, maximum: 255, default: 255, description: 'Input level mapped to output_white; brighter levels are clipped' },
+  gamma: { type: 'number', minimum: 0.1, maximum: 10, default: 1, description: 'Midtone gamma: above 1 brightens, below 1 darkens' },
+  output_black: { type: 'number', minimum: 0, maximum: 255, default: 0, description: 'Darkest output level' },
+  output_white: { type: 'number', minimum: 0, maximum: 255, default: 255, description: 'Brightest output level' }
+};
+
+// Per-channel overrides have no defaults, so unset values come from the shared settings
+const channelLevelsProperties = Object.fromEntries(
+  Object.entries(levelsProperties).map(([name, { default: _, ...property }]) => [name, property])
+);
+
+// `label` names the channel in errors when it has its own settings
+function levelsLut({ black_point, white_point, gamma, output_black, output_white }: LevelsSettings, label: string) {
+  if (black_point >= white_point) {
+    throw new Error(`${label}black_point (${black_point}) must be below white_point (${white_point})`);
+  }
+  return lutFrom(level => {
+    const normalized = Math.min(1, Math.max(0, (level - black_point) / (white_point - black_point)));
+    return output_black + normalized ** (1 / gamma) * (output_white - output_black);
+  });
+}
+
+export const imageLevels: ToolModule = {
+  definition: {
+    name: 'image_levels',
+    description: 'Adjust levels: black point, white point, midtone gamma and output range, for all channels or each channel separately',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...levelsProperties,
+        channels: {
+          type: 'object',
+          description: 'Per-channel settings replacing the ones above for that channel, e.g. {"blue": {"gamma": 0.9}}',
+          properties: Object.fromEntries(
+            LUT_CHANNELS.map(channel => [channel, { type: 'object', properties: channelLevelsProperties, additionalProperties: false }])
+          ),
+          additionalProperties: false
+        }
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, output_path, channels = {}, black_point, white_point, gamma, output_black, output_white } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    const defaults: LevelsSettings = { black_point, white_point, gamma, output_black, output_white };
+    const luts = LUT_CHANNELS.map(channel => levelsLut({ ...defaults, ...channels[channel] }, channels[channel] ? `${channel} ` : ''));
+
+    const output = await saveSharp(await applyLuts(input_path, luts), output_path);
+
+    const adjusted = LUT_CHANNELS.filter(channel => channels[channel]);
+    return imageResult(
+      `Levels adjusted (black ${black_point}, white ${white_point}, gamma ${gamma}, output ${output_black}-${output_white})` +
+        (adjusted.length ? `, with separate ${adjusted.join(', ')} settings` : ''),
+      output,
+      args
+    );
+  }
+};
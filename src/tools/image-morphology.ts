@@ -0,0 +1,123 @@
+import { ToolModule } from '../types.js';
+import { vips } from '../vips.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { checkpoint } from '../progress.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageMorphology: ToolModule = {
+  definition: {
+    name: 'image_morphology',
+    description: 'Apply morphological operations (erosion, dilation, opening, closing)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        operation: { 
+          type: 'string',
+          enum: ['erode', 'dilate', 'opening', 'closing'],
+          description: 'Morphological operation to apply'
+        },
+        kernel_size: { type: 'integer', default: 3, minimum: 1, description: 'Size of the square morphological kernel, used when no kernel is given' },
+        kernel: {
+          type: 'array',
+          items: { type: 'array', items: { type: 'number', enum: [0, 128, 255] }, minItems: 1 },
+          minItems: 1,
+          description: '2D structuring element, overriding kernel_size: 255 where pixels must be set, 0 where they must be clear, 128 to ignore'
+        },
+        iterations: { type: 'integer', default: 1, minimum: 1, description: 'Number of iterations' }
+      },
+      required: ['input_path', 'operation']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['morph'],
+
+  async execute(args, context) {
+    const { input_path, output_path, operation, kernel_size, iterations } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    // A square of set pixels unless a structuring element is given (mask elements must be 255)
+    const kernel: number[][] = (args as any).kernel ?? Array(kernel_size).fill(null).map(() => Array(kernel_size).fill(255));
+    if (kernel.some(row => row.length !== kernel[0].length)) {
+      throw new Error('kernel rows must all have the same length');
+    }
+    const kernelDescription = `${kernel.length}x${kernel[0].length} kernel`;
+    
+    return runWithBackend(args, {
+      capability: `Morphological ${operation}`,
+      approximation: 'blurs and thresholds instead of applying the structuring element',
+
+      vips: async () => {
+        log('debug', '🔬 Applying morphological operation with wasm-vips...');
+    
+        const kernelMatrix = vips.Image.newFromArray(kernel);
+    
+        const image = openVips(input_path);
+        let result = image;
+    
+        for (let i = 0; i < iterations; i++) {
+          await checkpoint(context);
+          switch (operation) {
+            case 'erode':
+              result = result.morph(kernelMatrix, 'erode');
+              break;
+            case 'dilate':
+              result = result.morph(kernelMatrix, 'dilate');
+              break;
+            case 'opening':
+              // Opening = erosion followed by dilation
+              result = result.morph(kernelMatrix, 'erode')
+                           .morph(kernelMatrix, 'dilate');
+              break;
+            case 'closing':
+              // Closing = dilation followed by erosion
+              result = result.morph(kernelMatrix, 'dilate')
+                           .morph(kernelMatrix, 'erode');
+              break;
+          }
+          // Evaluate each iteration so progress is reported and the call can be cancelled in between
+          result = result.copyMemory();
+          context.progress(i + 1, iterations, `Iteration ${i + 1} of ${iterations}`);
+        }
+    
+        const output = await saveVips(result, output_path);
+    
+        return imageResult(`Morphological ${operation} applied (${iterations} iterations, ${kernelDescription})`, output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        // Simple approximation using Sharp
+        let sharpImg = openSharp(input_path);
+    
+        switch (operation) {
+          case 'erode':
+            sharpImg = sharpImg.blur(0.5).threshold(120);
+            break;
+          case 'dilate':
+            sharpImg = sharpImg.blur(1).modulate({ brightness: 1.15 });
+            break;
+          case 'opening':
+            sharpImg = sharpImg.blur(0.5).threshold(120).blur(1);
+            break;
+          case 'closing':
+            sharpImg = sharpImg.blur(1).modulate({ brightness: 1.15 }).blur(0.5);
+            break;
+        }
+    
+        const output = await saveSharp(sharpImg, output_path);
+    
+        return imageResult(`Morphological ${operation} applied (Sharp fallback)`, output, args);
+      }
+    });
+  }
+};
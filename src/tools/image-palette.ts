@@ -0,0 +1,208 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp, rawPixels } from '../io.js';
+import { dataResult } from '../results.js';
+import { paletteOutputSchema } from '../schemas.js';
+import { Lab, rgbToLab, labToRgb } from '../color.js';
+
+// Pixels are sampled from a copy no larger than this on either side
+const SAMPLE_SIZE = 200;
+const KMEANS_ITERATIONS = 20;
+const SWATCH_WIDTH = 600;
+const SWATCH_HEIGHT = 100;
+
+interface Cluster {
+  lab: Lab;
+  weight: number;
+}
+
+function distanceSquared(p: Lab, q: Lab): number {
+  return (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+}
+
+// Small seeded generator so the same image always gives the same palette
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// k-means with k-means++ seeding
+function kmeans(pixels: Lab[], k: number): Cluster[] {
+  const random = mulberry32(pixels.length);
+  const centers: Lab[] = [pixels[Math.floor(random() * pixels.length)]];
+  const nearest = pixels.map(pixel => distanceSquared(pixel, centers[0]));
+
+  while (centers.length < k) {
+    const total = nearest.reduce((sum, distance) => sum + distance, 0);
+    // Fewer distinct colors than requested
+    if (total === 0) break;
+
+    let target = random() * total;
+    let index = 0;
+    while (target > nearest[index] && index < pixels.length - 1) {
+      target -= nearest[index++];
+    }
+    centers.push(pixels[index]);
+    pixels.forEach((pixel, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSquared(pixel, pixels[index]));
+    });
+  }
+
+  const assignment = new Int32Array(pixels.length);
+  let weights: number[] = [];
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let moved = false;
+    pixels.forEach((pixel, i) => {
+      let best = 0;
+      for (let c = 1; c < centers.length; c++) {
+        if (distanceSquared(pixel, centers[c]) < distanceSquared(pixel, centers[best])) best = c;
+      }
+      if (assignment[i] !== best || iteration === 0) moved = true;
+      assignment[i] = best;
+    });
+
+    const sums = centers.map((): Lab => [0, 0, 0]);
+    weights = centers.map(() => 0);
+    pixels.forEach((pixel, i) => {
+      const sum = sums[assignment[i]];
+      sum[0] += pixel[0];
+      sum[1] += pixel[1];
+      sum[2] += pixel[2];
+      weights[assignment[i]]++;
+    });
+    sums.forEach((sum, c) => {
+      if (weights[c] > 0) centers[c] = [sum[0] / weights[c], sum[1] / weights[c], sum[2] / weights[c]];
+    });
+
+    if (!moved) break;
+  }
+
+  return centers.map((lab, c) => ({ lab, weight: weights[c] })).filter(cluster => cluster.weight > 0);
+}
+
+// Median cut: split the box with the widest range at the median of that axis
+function medianCut(pixels: Lab[], k: number): Cluster[] {
+  const range = (box: Lab[], axis: number) => {
+    let min = Infinity, max = -Infinity;
+    for (const pixel of box) {
+      min = Math.min(min, pixel[axis]);
+      max = Math.max(max, pixel[axis]);
+    }
+    return max - min;
+  };
+  const widestAxis = (box: Lab[]) => [0, 1, 2].reduce((best, axis) => (range(box, axis) > range(box, best) ? axis : best), 0);
+
+  const boxes: Lab[][] = [pixels];
+  while (boxes.length < k) {
+    const splittable = boxes.filter(box => box.length > 1 && range(box, widestAxis(box)) > 0);
+    if (splittable.length === 0) break;
+
+    const box = splittable.reduce((best, candidate) =>
+      range(candidate, widestAxis(candidate)) > range(best, widestAxis(best)) ? candidate : best
+    );
+    const axis = widestAxis(box);
+    box.sort((p, q) => p[axis] - q[axis]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(boxes.indexOf(box), 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0]);
+    return { lab: [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length] as Lab, weight: box.length };
+  });
+}
+
+function toHex(rgb: number[]): string {
+  return '#' + rgb.map(value => value.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+export const imagePalette: ToolModule = {
+  definition: {
+    name: 'image_palette',
+    description: 'Extract the dominant colors of an image (k-means or median cut in Lab space) with hex values and proportions, optionally writing a swatch image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        colors: { type: 'integer', minimum: 1, maximum: 32, default: 5, description: 'Number of colors to extract' },
+        method: {
+          type: 'string',
+          enum: ['kmeans', 'median_cut'],
+          default: 'kmeans',
+          description: 'kmeans (perceptually tighter clusters) or median_cut (faster, favors color range)'
+        },
+        swatch_path: { type: 'string', description: 'Write a swatch strip here, each color as wide as its share of the image' }
+      },
+      required: ['input_path']
+    },
+    outputSchema: paletteOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, colors, method, swatch_path } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    const { data, channels } = await rawPixels(
+      openSharp(input_path)
+        .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .toColourspace('srgb')
+        .ensureAlpha()
+    );
+
+    // Mostly transparent pixels do not contribute to the palette
+    const pixels: Lab[] = [];
+    for (let i = 0; i < data.length; i += channels) {
+      if (data[i + 3] >= 128) {
+        pixels.push(rgbToLab(data[i], data[i + 1], data[i + 2]));
+      }
+    }
+    if (pixels.length === 0) {
+      throw new Error('Image has no opaque pixels');
+    }
+
+    const clusters = (method === 'median_cut' ? medianCut(pixels, colors) : kmeans(pixels, colors))
+      .sort((a, b) => b.weight - a.weight);
+
+    const palette = clusters.map(({ lab, weight }) => {
+      const rgb = labToRgb(lab);
+      return {
+        hex: toHex(rgb),
+        rgb,
+        lab: lab.map(value => Math.round(value * 100) / 100),
+        proportion: Math.round((weight / pixels.length) * 10000) / 10000
+      };
+    });
+
+    let swatch: string | undefined;
+    if (swatch_path) {
+      const strip = Buffer.alloc(SWATCH_WIDTH * SWATCH_HEIGHT * 3);
+      // Column boundaries from the cumulative proportions
+      let start = 0;
+      let cumulative = 0;
+      clusters.forEach((cluster, c) => {
+        cumulative += cluster.weight;
+        const end = c === clusters.length - 1 ? SWATCH_WIDTH : Math.round((cumulative / pixels.length) * SWATCH_WIDTH);
+        for (let y = 0; y < SWATCH_HEIGHT; y++) {
+          for (let x = start; x < end; x++) {
+            strip.set(palette[c].rgb, (y * SWATCH_WIDTH + x) * 3);
+          }
+        }
+        start = end;
+      });
+      swatch = await saveSharp(sharp(strip, { raw: { width: SWATCH_WIDTH, height: SWATCH_HEIGHT, channels: 3 } }), swatch_path);
+    }
+
+    return dataResult({
+      colors: palette,
+      method,
+      ...(swatch && { swatch })
+    }, 'sharp');
+  }
+};
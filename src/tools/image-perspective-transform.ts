@@ -0,0 +1,69 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, saveSharp, openVips, saveVips } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, backendOptionProperties, imageOutputSchema } from '../schemas.js';
+
+export const imagePerspectiveTransform: ToolModule = {
+  definition: {
+    name: 'image_perspective_transform',
+    description: 'Apply perspective transformation to images',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        ...backendOptionProperties,
+        corners: {
+          type: 'array',
+          items: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 },
+          minItems: 4,
+          maxItems: 4,
+          description: 'Four corner points [[x1,y1], [x2,y2], [x3,y3], [x4,y4]]'
+        }
+      },
+      required: ['input_path', 'corners']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  vipsOperations: ['quadrilateral'],
+
+  async execute(args) {
+    const { input_path, output_path, corners } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Perspective transform',
+      approximation: 'rotates the image by 15° instead of warping it',
+
+      vips: async () => {
+        log('debug', '📐 Applying perspective transformation with wasm-vips...');
+    
+        const image = openVips(input_path);
+    
+        // Create transformation matrix from corners
+        const [tl, tr, br, bl] = corners;
+        const result = image.quadrilateral(tl[0], tl[1], tr[0], tr[1], br[0], br[1], bl[0], bl[1]);
+        const output = await saveVips(result, output_path);
+    
+        return imageResult('Perspective transformation applied', output, args, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        // Simple rotation as approximation
+        const image = openSharp(input_path)
+          .rotate(15);
+
+        const output = await saveSharp(image, output_path);
+    
+        return imageResult('Rotation applied (perspective fallback)', output, args);
+      }
+    });
+  }
+};
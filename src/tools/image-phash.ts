@@ -0,0 +1,40 @@
+import { ToolModule } from '../types.js';
+import { inputExists } from '../io.js';
+import { HASH_ALGORITHMS, imageHash } from '../phash.js';
+import { dataResult } from '../results.js';
+import { phashOutputSchema } from '../schemas.js';
+
+export const imagePhash: ToolModule = {
+  definition: {
+    name: 'image_phash',
+    description: 'Compute a 64-bit perceptual hash (pHash, dHash or aHash) that stays nearly the same across resizing and recompression',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        algorithm: {
+          type: 'string',
+          enum: HASH_ALGORITHMS,
+          default: 'phash',
+          description: 'phash (DCT of a 32x32 grayscale copy, most robust), dhash (gradients of a 9x8 copy) or ahash (8x8 copy against its mean, fastest)'
+        }
+      },
+      required: ['input_path']
+    },
+    outputSchema: phashOutputSchema
+  },
+
+  async execute(args) {
+    const { input_path, algorithm } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    return dataResult({
+      hash: await imageHash(input_path, algorithm),
+      algorithm,
+      bits: 64
+    }, 'sharp');
+  }
+};
@@ -0,0 +1,194 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { assertWritable } from '../sandbox.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+import { checkpoint } from '../progress.js';
+import { validateValue } from '../validation.js';
+import { imageResize } from './image-resize.js';
+import { imageThumbnail } from './image-thumbnail.js';
+import { imageCrop } from './image-crop.js';
+import { imageRotate } from './image-rotate.js';
+import { imageFlip } from './image-flip.js';
+import { imageBlur } from './image-blur.js';
+import { imageSharpen } from './image-sharpen.js';
+import { imageAdjustBrightness } from './image-adjust-brightness.js';
+import { imageAdjustContrast } from './image-adjust-contrast.js';
+import { imageAdjustSaturation } from './image-adjust-saturation.js';
+import { imageGrayscale } from './image-grayscale.js';
+import { imageExtractChannel } from './image-extract-channel.js';
+import { imageColorspaceConvert } from './image-colorspace-convert.js';
+import { imageConvert } from './image-convert.js';
+
+// Pipeline step as accepted by image_pipeline, e.g. { operation: 'resize', width: 800 }
+interface PipelineStep {
+  operation: string;
+  [param: string]: any;
+}
+
+// Encoder settings collected from 'convert' steps
+interface PipelineOutput {
+  format?: string;
+  quality?: number;
+}
+
+// Each operation takes these parameters of the matching tool, with the same
+// types, limits, defaults and required fields
+const STEP_PARAMETERS: Record<string, [ToolModule, string[]]> = {
+  resize: [imageResize, ['width', 'height', 'maintain_aspect_ratio', 'fit', 'kernel']],
+  thumbnail: [imageThumbnail, ['size', 'crop']],
+  crop: [imageCrop, ['x', 'y', 'width', 'height']],
+  rotate: [imageRotate, ['angle', 'background']],
+  flip: [imageFlip, ['direction']],
+  blur: [imageBlur, ['sigma']],
+  sharpen: [imageSharpen, ['sigma', 'flat', 'jagged']],
+  brightness: [imageAdjustBrightness, ['brightness']],
+  contrast: [imageAdjustContrast, ['contrast']],
+  saturation: [imageAdjustSaturation, ['saturation']],
+  grayscale: [imageGrayscale, []],
+  extract_channel: [imageExtractChannel, ['channel']],
+  colorspace: [imageColorspaceConvert, ['space']],
+  convert: [imageConvert, ['format', 'quality']]
+};
+
+const STEP_SCHEMAS = Object.fromEntries(
+  Object.entries(STEP_PARAMETERS).map(([operation, [tool, parameters]]) => {
+    const { properties, required = [] } = tool.definition.inputSchema as any;
+    return [operation, {
+      type: 'object',
+      properties: {
+        operation: { type: 'string' },
+        ...Object.fromEntries(parameters.map(name => [name, properties[name]]))
+      },
+      required: required.filter((name: string) => parameters.includes(name))
+    }];
+  })
+);
+
+// Decode the current pipeline state to raw pixels so the next step starts
+// from the previous result, without re-encoding to an intermediate file
+async function renderRaw(image: sharp.Sharp): Promise<sharp.Sharp> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  // e.g. CMYK with alpha, which only the final encoder can take
+  if (info.channels > 4) {
+    throw new Error(`${info.channels}-band result cannot be passed to the next step; make this the last step`);
+  }
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels }
+  });
+}
+
+// Apply a single pipeline step with the matching tool's own Sharp operation
+function applyPipelineStep(image: sharp.Sharp, step: PipelineStep, output: PipelineOutput): sharp.Sharp {
+  if (step.operation === 'convert') {
+    output.format = step.format;
+    output.quality = step.quality;
+    return image;
+  }
+  const [tool] = STEP_PARAMETERS[step.operation];
+  return tool.applySharp!(image, step);
+}
+
+export const imagePipeline: ToolModule = {
+  definition: {
+    name: 'image_pipeline',
+    description: 'Apply an ordered list of operations in memory, decoding the input once and encoding the output once',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_path: { type: 'string', description: 'Path for output image (omit to keep the result in memory and return an img:// handle)' },
+        ...previewProperties,
+        steps: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              operation: {
+                type: 'string',
+                enum: ['resize', 'thumbnail', 'crop', 'rotate', 'flip', 'blur', 'sharpen', 'brightness', 'contrast', 'saturation', 'grayscale', 'extract_channel', 'colorspace', 'convert'],
+                description: 'Operation to apply'
+              }
+            },
+            required: ['operation'],
+            // The remaining parameters depend on the operation
+            additionalProperties: true
+          },
+          description: 'Steps applied in order. Each step takes the same parameters as the matching tool, e.g. {"operation": "resize", "width": 800}, {"operation": "sharpen", "sigma": 1.5}, {"operation": "colorspace", "space": "srgb"} or {"operation": "convert", "format": "webp", "quality": 75}'
+        }
+      },
+      required: ['input_path', 'steps']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  async execute(args, context) {
+    const { input_path, output_path, steps } = args as { input_path: string; output_path: string; steps: PipelineStep[] };
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new Error('Pipeline requires at least one step');
+    }
+
+    // Check every step before decoding, so errors name the step and field
+    const errors: string[] = [];
+    const validatedSteps: PipelineStep[] = steps.map((step, i) =>
+      validateValue(STEP_SCHEMAS[step.operation], step, `steps[${i}]`, errors)
+    );
+    // Steps after a conversion would see its pixels as sRGB, so only
+    // encoder settings may follow it
+    const colorspaceStep = steps.findIndex(step => step.operation === 'colorspace');
+    if (colorspaceStep >= 0 && steps.slice(colorspaceStep + 1).some(step => step.operation !== 'convert')) {
+      errors.push(`steps[${colorspaceStep}].operation colorspace must be the last step, followed only by convert steps`);
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid arguments for image_pipeline: ${errors.join('; ')}`);
+    }
+
+    // Checked before decoding, so a refused output path isn't reported as a
+    // failure of the last step
+    if (output_path) {
+      assertWritable(output_path);
+    }
+
+    const stepFailed = (i: number, error: unknown) =>
+      new Error(`Step ${i + 1} (${steps[i].operation}) failed: ${error instanceof Error ? error.message : String(error)}`);
+
+    const encoding: PipelineOutput = {};
+    let image = openSharp(input_path);
+
+    for (let i = 0; i < validatedSteps.length; i++) {
+      await checkpoint(context);
+      try {
+        image = applyPipelineStep(image, validatedSteps[i], encoding);
+        // Sharp applies chained operations in a fixed order, so render
+        // to raw pixels between steps to honor the requested order.
+        // convert steps only choose the encoder and need no render.
+        if (i < steps.length - 1 && steps[i + 1].operation !== 'convert') {
+          image = await renderRaw(image);
+        }
+      } catch (error) {
+        throw stepFailed(i, error);
+      }
+      context.progress(i + 1, steps.length, `Step ${i + 1} (${steps[i].operation}) applied`);
+    }
+
+    if (encoding.format) {
+      image = image.toFormat(encoding.format as keyof sharp.FormatEnum, { quality: encoding.quality || 80 });
+    }
+
+    // The last step only runs while encoding, so its errors surface here
+    let output: string;
+    try {
+      output = await saveSharp(image, output_path);
+    } catch (error) {
+      throw stepFailed(steps.length - 1, error);
+    }
+
+    return imageResult(`Pipeline applied (${steps.map(step => step.operation).join(' → ')})`, output, args);
+  }
+};
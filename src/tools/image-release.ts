@@ -0,0 +1,42 @@
+import { ToolModule } from '../types.js';
+import { releaseImage, storedHandles } from '../handles.js';
+import { dataResult } from '../results.js';
+import { releaseOutputSchema } from '../schemas.js';
+
+export const imageRelease: ToolModule = {
+  definition: {
+    name: 'image_release',
+    description: 'Release in-memory img:// handles to free memory',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        handle: { type: 'string', description: 'img:// handle to release' },
+        all: { type: 'boolean', default: false, description: 'Release every handle' }
+      }
+    },
+    outputSchema: releaseOutputSchema
+  },
+
+  imageFree: true,
+
+  async execute(args) {
+    const { handle, all } = args as any;
+
+    if (all) {
+      const released = storedHandles().filter(releaseImage);
+      return dataResult({
+        message: `Released ${released.length} image handle(s)`,
+        released
+      });
+    }
+
+    if (!releaseImage(handle)) {
+      throw new Error(`Image handle not found (released or evicted): ${handle}`);
+    }
+
+    return dataResult({
+      message: `Image handle released: ${handle}`,
+      released: [handle]
+    });
+  }
+};
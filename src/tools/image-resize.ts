@@ -0,0 +1,78 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function resize(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  const { width, height, maintain_aspect_ratio, fit, kernel } = args as any;
+  const resizeOptions: any = { fit, kernel };
+  if (width) resizeOptions.width = width;
+  if (height) resizeOptions.height = height;
+  if (!maintain_aspect_ratio) resizeOptions.fit = 'fill';
+  return image.resize(resizeOptions);
+}
+
+export const imageResize: ToolModule = {
+  definition: {
+    name: 'image_resize',
+    description: 'Resize an image while preserving aspect ratio or with specific dimensions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        width: {
+          type: 'number',
+          minimum: 1,
+          description: 'Target width in pixels'
+        },
+        height: {
+          type: 'number',
+          minimum: 1,
+          description: 'Target height in pixels'
+        },
+        maintain_aspect_ratio: {
+          type: 'boolean',
+          description: 'Whether to maintain aspect ratio (default: true)',
+          default: true
+        },
+        fit: {
+          type: 'string',
+          enum: ['cover', 'contain', 'fill', 'inside', 'outside'],
+          description: 'How the image should be resized to fit the target dimensions',
+          default: 'cover'
+        },
+        kernel: {
+          type: 'string',
+          enum: ['nearest', 'linear', 'cubic', 'mitchell', 'lanczos2', 'lanczos3'],
+          description: 'Interpolation kernel used when reducing or enlarging',
+          default: 'lanczos3'
+        }
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: resize,
+
+  async execute(args) {
+    const { input_path, output_path } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(resize(openSharp(input_path), args), output_path);
+    
+    return imageResult('Image resized successfully', output, args);
+  }
+};
@@ -0,0 +1,138 @@
+import { existsSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp, encodeSharp } from '../io.js';
+import { checkpoint } from '../progress.js';
+import { dataResult, describeOutput } from '../results.js';
+import { responsiveSetOutputSchema } from '../schemas.js';
+
+const MIME_TYPES: Record<string, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png'
+};
+
+const EXTENSIONS: Record<string, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg',
+  png: 'png'
+};
+
+interface Variant {
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+  path: string;
+  url: string;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function srcset(variants: Variant[]): string {
+  return variants.map(variant => `${escapeAttribute(variant.url)} ${variant.width}w`).join(', ');
+}
+
+// <picture> with one <source> per format and the last format as the <img> fallback
+function pictureHtml(variants: Variant[], formats: string[], sizes: string, alt: string): string {
+  const byFormat = (format: string) => variants.filter(variant => variant.format === format);
+  const fallback = byFormat(formats[formats.length - 1]);
+  const largest = fallback[fallback.length - 1];
+
+  const img = `<img src="${escapeAttribute(largest.url)}" srcset="${srcset(fallback)}" sizes="${escapeAttribute(sizes)}" ` +
+    `width="${largest.width}" height="${largest.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`;
+  if (formats.length === 1) {
+    return img;
+  }
+
+  const sources = formats.slice(0, -1).map(format =>
+    `  <source type="${MIME_TYPES[format]}" srcset="${srcset(byFormat(format))}" sizes="${escapeAttribute(sizes)}">`
+  );
+  return ['<picture>', ...sources, `  ${img}`, '</picture>'].join('\n');
+}
+
+export const imageResponsiveSet: ToolModule = {
+  definition: {
+    name: 'image_responsive_set',
+    description: 'Generate resized copies of an image in several widths and formats, with a ready-made <picture>/srcset HTML snippet and a JSON manifest',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        output_dir: { type: 'string', description: 'Directory for the generated images' },
+        widths: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1 },
+          minItems: 1,
+          default: [320, 640, 1280],
+          description: 'Widths to generate; widths larger than the source are replaced by the source width'
+        },
+        formats: {
+          type: 'array',
+          items: { type: 'string', enum: ['avif', 'webp', 'jpeg', 'png'] },
+          minItems: 1,
+          default: ['avif', 'webp', 'jpeg'],
+          description: 'Formats to generate, most preferred first; the last one is used for the <img> fallback'
+        },
+        quality: { type: 'number', minimum: 1, maximum: 100, default: 80, description: 'Quality for lossy formats (1-100)' },
+        name: { type: 'string', description: 'Base file name, e.g. "hero" gives hero-320.avif (default: the input file name)' },
+        base_url: { type: 'string', default: '', description: 'URL prefix for the HTML snippet, e.g. "/images/"' },
+        sizes: { type: 'string', default: '100vw', description: 'Value of the sizes attribute' },
+        alt: { type: 'string', default: '', description: 'Alternative text for the <img>' }
+      },
+      required: ['input_path', 'output_dir']
+    },
+    outputSchema: responsiveSetOutputSchema
+  },
+
+  async execute(args, context) {
+    const { input_path, output_dir, widths, formats, quality, name, base_url, sizes, alt } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    // Handles and inline images have no file name to reuse
+    const baseName = name || (existsSync(input_path) ? basename(input_path, extname(input_path)) : 'image');
+    const source = openSharp(input_path);
+    const { width: sourceWidth } = await source.metadata();
+
+    const requested: number[] = [...new Set<number>(widths)].sort((a, b) => a - b);
+    // Never upscale: widths beyond the source are replaced by the source width
+    const selected = requested.filter(width => width <= sourceWidth!);
+    const skipped = requested.filter(width => width > sourceWidth!);
+    if (skipped.length > 0 && !selected.includes(sourceWidth!)) {
+      selected.push(sourceWidth!);
+    }
+
+    // Preference order is kept, so the last format remains the fallback
+    const selectedFormats: string[] = [...new Set<string>(formats)];
+
+    const variants: Variant[] = [];
+    const total = selected.length * selectedFormats.length;
+    for (const format of selectedFormats) {
+      for (const width of selected) {
+        await checkpoint(context);
+
+        const fileName = `${baseName}-${width}.${EXTENSIONS[format]}`;
+        const image = encodeSharp(source.clone().resize({ width, kernel: 'lanczos3' }), format, { quality });
+        const path = await saveSharp(image, join(output_dir, fileName));
+        const { height, bytes } = await describeOutput(path);
+
+        variants.push({ format, width, height: height!, bytes, path, url: base_url + fileName });
+        context.progress(variants.length, total, fileName);
+      }
+    }
+
+    return dataResult({
+      message: `Generated ${variants.length} images (${selected.join('/')}px in ${selectedFormats.join(', ')})`,
+      html: pictureHtml(variants, selectedFormats, sizes, alt),
+      images: variants,
+      ...(skipped.length > 0 && { skipped_widths: skipped })
+    }, 'sharp');
+  }
+};
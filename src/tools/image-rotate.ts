@@ -0,0 +1,56 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function rotate(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  const { angle, background } = args as any;
+  return image.rotate(angle, { background });
+}
+
+export const imageRotate: ToolModule = {
+  definition: {
+    name: 'image_rotate',
+    description: 'Rotate an image by specified angle',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        angle: {
+          type: 'number',
+          description: 'Rotation angle in degrees (positive = clockwise)'
+        },
+        background: {
+          type: 'string',
+          description: 'Background color for empty areas (hex color)',
+          default: '#000000'
+        }
+      },
+      required: ['input_path', 'angle']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: rotate,
+
+  async execute(args) {
+    const { input_path, output_path, angle } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(rotate(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Image rotated by ${angle} degrees`, output, args);
+  }
+};
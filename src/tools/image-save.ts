@@ -0,0 +1,47 @@
+import { ToolModule } from '../types.js';
+import { isHandle } from '../handles.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+export const imageSave: ToolModule = {
+  definition: {
+    name: 'image_save',
+    description: 'Write an in-memory img:// handle to disk',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        handle: { type: 'string', description: 'img:// handle returned by a previous tool call' },
+        output_path: { type: 'string', description: 'Path for output image (format inferred from extension unless given)' },
+        ...previewProperties,
+        format: {
+          type: 'string',
+          enum: ['jpeg', 'png', 'webp', 'tiff', 'avif', 'heif'],
+          description: 'Output format'
+        },
+        quality: { type: 'number', minimum: 1, maximum: 100, description: 'Quality for lossy formats (1-100)' }
+      },
+      required: ['handle', 'output_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  imageFree: true,
+
+  async execute(args) {
+    const { handle, output_path, format, quality } = args as any;
+
+    if (!isHandle(handle) || !inputExists(handle)) {
+      throw new Error(`Image handle not found (released or evicted): ${handle}`);
+    }
+
+    let image = openSharp(handle);
+    if (format) {
+      image = image.toFormat(format, { quality: quality || 80 });
+    }
+
+    const output = await saveSharp(image, output_path);
+
+    return imageResult(`Image ${handle} saved`, output, args);
+  }
+};
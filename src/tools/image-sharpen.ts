@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function sharpen(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  const { sigma, flat, jagged } = args as any;
+  return image.sharpen(sigma, flat, jagged);
+}
+
+export const imageSharpen: ToolModule = {
+  definition: {
+    name: 'image_sharpen',
+    description: 'Apply unsharp mask to sharpen an image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        sigma: {
+          type: 'number',
+          description: 'Blur sigma for the mask',
+          default: 1.0
+        },
+        flat: {
+          type: 'number',
+          description: 'Flat area threshold',
+          default: 1.0
+        },
+        jagged: {
+          type: 'number',
+          description: 'Jagged area threshold',
+          default: 2.0
+        }
+      },
+      required: ['input_path']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: sharpen,
+
+  async execute(args) {
+    const { input_path, output_path } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(sharpen(openSharp(input_path), args), output_path);
+    
+    return imageResult('Image sharpened', output, args);
+  }
+};
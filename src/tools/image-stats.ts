@@ -0,0 +1,72 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { inputExists, openSharp, openVips } from '../io.js';
+import { dataResult } from '../results.js';
+import { backendOptionProperties, statisticsOutputSchema } from '../schemas.js';
+
+export const imageStats: ToolModule = {
+  definition: {
+    name: 'image_stats',
+    description: 'Calculate basic image statistics (min, max, mean, standard deviation)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        ...backendOptionProperties
+      },
+      required: ['input_path']
+    },
+    outputSchema: statisticsOutputSchema
+  },
+
+  vipsOperations: ['min', 'max', 'avg', 'deviate'],
+
+  async execute(args) {
+    const { input_path } = args as any;
+
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+
+    return runWithBackend(args, {
+      capability: 'Image statistics',
+
+      vips: async () => {
+        const image = openVips(input_path);
+        const stats = {
+          min: image.min(),
+          max: image.max(),
+          avg: image.avg(),
+          deviate: image.deviate(),
+          width: image.width,
+          height: image.height,
+          bands: image.bands,
+          format: image.format
+        };
+
+        return dataResult(stats, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        // Sharp reports the same measures per channel; combine them across bands
+        const image = openSharp(input_path);
+        const { width, height, channels, format } = await image.metadata();
+        const { channels: bands } = await image.stats();
+        const avg = bands.reduce((sum, band) => sum + band.mean, 0) / bands.length;
+        const variance = bands.reduce((sum, band) => sum + band.stdev ** 2 + (band.mean - avg) ** 2, 0) / bands.length;
+        const stats = {
+          min: Math.min(...bands.map(band => band.min)),
+          max: Math.max(...bands.map(band => band.max)),
+          avg,
+          deviate: Math.sqrt(variance),
+          width,
+          height,
+          bands: channels,
+          format
+        };
+
+        return dataResult(stats, 'sharp');
+      }
+    });
+  }
+};
@@ -0,0 +1,83 @@
+import { ToolModule } from '../types.js';
+import { runWithBackend } from '../backends.js';
+import { log } from '../logger.js';
+import { inputExists, openSharp, openVips } from '../io.js';
+import { dataResult } from '../results.js';
+import { backendOptionProperties, statisticsOutputSchema } from '../schemas.js';
+
+export const imageTextureAnalysis: ToolModule = {
+  definition: {
+    name: 'image_texture_analysis',
+    description: 'Analyze image texture using statistical measures',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: { type: 'string', description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64' },
+        ...backendOptionProperties,
+        window_size: { type: 'integer', default: 5, minimum: 1, description: 'Analysis window size' }
+      },
+      required: ['input_path']
+    },
+    outputSchema: statisticsOutputSchema
+  },
+
+  vipsOperations: ['avg', 'deviate', 'min', 'max', 'hist', 'hist_entropy', 'rank'],
+
+  async execute(args) {
+    const { input_path, window_size } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    return runWithBackend(args, {
+      capability: 'Texture analysis',
+
+      vips: async () => {
+        log('debug', '🔍 Analyzing texture with wasm-vips...');
+    
+        const image = openVips(input_path);
+    
+        // Calculate texture measures
+        const stats = {
+          // Basic statistics
+          mean: image.avg(),
+          stddev: image.deviate(),
+          min: image.min(),
+          max: image.max(),
+      
+          // Texture measures
+          entropy: image.hist().histEntropy(),
+          contrast: image.max() - image.min(),
+      
+          // Window-based analysis
+          windowSize: window_size,
+          localVariance: image.rank(window_size, window_size, window_size * window_size / 2).deviate()
+        };
+    
+        return dataResult(stats, 'wasm-vips');
+      },
+
+      sharp: async () => {
+        const stats = await openSharp(input_path).stats();
+        const metadata = await openSharp(input_path).metadata();
+    
+        const textureStats = {
+          channels: stats.channels.map(ch => ({
+            mean: ch.mean,
+            stdev: ch.stdev,
+            min: ch.min,
+            max: ch.max,
+            contrast: ch.max - ch.min
+          })),
+          entropy: stats.entropy,
+          windowSize: window_size,
+          format: metadata.format,
+          dimensions: `${metadata.width}x${metadata.height}`
+        };
+    
+        return dataResult(textureStats, 'sharp');
+      }
+    });
+  }
+};
@@ -0,0 +1,59 @@
+import sharp from 'sharp';
+import { ToolModule } from '../types.js';
+import { inputExists, openSharp, saveSharp } from '../io.js';
+import { imageResult } from '../results.js';
+import { previewProperties, imageOutputSchema } from '../schemas.js';
+
+function thumbnail(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp {
+  const { size, crop } = args as any;
+  return crop
+    ? image.resize(size, size, { fit: 'cover' })
+    : image.resize(size, size, { fit: 'inside', withoutEnlargement: true });
+}
+
+export const imageThumbnail: ToolModule = {
+  definition: {
+    name: 'image_thumbnail',
+    description: 'Create a thumbnail maintaining aspect ratio',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input_path: {
+          type: 'string',
+          description: 'Path to input image, img:// handle, data:image/...;base64 URI or raw base64'
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path for output image (omit to keep the result in memory and return an img:// handle)'
+        },
+        ...previewProperties,
+        size: {
+          type: 'number',
+          minimum: 1,
+          description: 'Maximum dimension for thumbnail'
+        },
+        crop: {
+          type: 'boolean',
+          description: 'Whether to crop to exact square',
+          default: false
+        }
+      },
+      required: ['input_path', 'size']
+    },
+    outputSchema: imageOutputSchema
+  },
+
+  applySharp: thumbnail,
+
+  async execute(args) {
+    const { input_path, output_path, size } = args as any;
+    
+    if (!inputExists(input_path)) {
+      throw new Error(`Input image not found: ${input_path}`);
+    }
+    
+    const output = await saveSharp(thumbnail(openSharp(input_path), args), output_path);
+    
+    return imageResult(`Thumbnail created (${size}px)`, output, args);
+  }
+};
@@ -0,0 +1,119 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolModule } from '../types.js';
+import { imageInfo } from './image-info.js';
+import { imageResize } from './image-resize.js';
+import { imageConvert } from './image-convert.js';
+import { imageCrop } from './image-crop.js';
+import { imageRotate } from './image-rotate.js';
+import { imageFlip } from './image-flip.js';
+import { imageBlur } from './image-blur.js';
+import { imageSharpen } from './image-sharpen.js';
+import { imageAdjustBrightness } from './image-adjust-brightness.js';
+import { imageAdjustContrast } from './image-adjust-contrast.js';
+import { imageAdjustSaturation } from './image-adjust-saturation.js';
+import { imageGrayscale } from './image-grayscale.js';
+import { imageEqualize } from './image-equalize.js';
+import { imageLevels } from './image-levels.js';
+import { imageCurves } from './image-curves.js';
+import { imageComposite } from './image-composite.js';
+import { imageThumbnail } from './image-thumbnail.js';
+import { imageExtractChannel } from './image-extract-channel.js';
+import { imageHistogram } from './image-histogram.js';
+import { imageCompare } from './image-compare.js';
+import { imageDiff } from './image-diff.js';
+import { imagePhash } from './image-phash.js';
+import { imagePalette } from './image-palette.js';
+import { createSolidColor } from './create-solid-color.js';
+import { imageMorphology } from './image-morphology.js';
+import { imageDrawLine } from './image-draw-line.js';
+import { imageDrawCircle } from './image-draw-circle.js';
+import { imageDrawRect } from './image-draw-rect.js';
+import { imageEdgeDetection } from './image-edge-detection.js';
+import { imageAdvancedStats } from './image-advanced-stats.js';
+import { imageStats } from './image-stats.js';
+import { imageFft } from './image-fft.js';
+import { imageCustomConvolution } from './image-custom-convolution.js';
+import { imageColorspaceConvert } from './image-colorspace-convert.js';
+import { imageAddNoise } from './image-add-noise.js';
+import { imagePerspectiveTransform } from './image-perspective-transform.js';
+import { imageTextureAnalysis } from './image-texture-analysis.js';
+import { imageFloodFill } from './image-flood-fill.js';
+import { imageCreatePyramid } from './image-create-pyramid.js';
+import { imagePipeline } from './image-pipeline.js';
+import { imageBatch } from './image-batch.js';
+import { imageResponsiveSet } from './image-responsive-set.js';
+import { imageFindDuplicates } from './image-find-duplicates.js';
+import { imageSave } from './image-save.js';
+import { imageRelease } from './image-release.js';
+import { imageCapabilities } from './image-capabilities.js';
+
+// Every tool the server exposes, in the order tools/list returns them
+export const toolModules: ToolModule[] = [
+  // BASIC OPERATIONS
+  imageInfo,
+  imageResize,
+  imageConvert,
+  imageCrop,
+  imageRotate,
+  imageFlip,
+
+  // ENHANCEMENT
+  imageBlur,
+  imageSharpen,
+  imageAdjustBrightness,
+  imageAdjustContrast,
+  imageAdjustSaturation,
+  imageGrayscale,
+  imageEqualize,
+  imageLevels,
+  imageCurves,
+
+  // COMPOSITION, CHANNELS AND ANALYSIS
+  imageComposite,
+  imageThumbnail,
+  imageExtractChannel,
+  imageHistogram,
+  imageCompare,
+  imageDiff,
+  imagePhash,
+  imagePalette,
+  createSolidColor,
+
+  // ENHANCED OPERATIONS WITH WASM-VIPS
+  imageMorphology,
+  imageDrawLine,
+  imageDrawCircle,
+  imageDrawRect,
+  imageEdgeDetection,
+  imageAdvancedStats,
+  imageStats,
+
+  // SCIENTIFIC OPERATIONS
+  imageFft,
+  imageCustomConvolution,
+  imageColorspaceConvert,
+  imageAddNoise,
+  imagePerspectiveTransform,
+  imageTextureAnalysis,
+  imageFloodFill,
+  imageCreatePyramid,
+
+  // WORKFLOW OPERATIONS
+  imagePipeline,
+  imageBatch,
+  imageResponsiveSet,
+  imageFindDuplicates,
+
+  // IN-MEMORY HANDLES
+  imageSave,
+  imageRelease,
+
+  // SERVER INFORMATION
+  imageCapabilities
+];
+
+export const tools: Tool[] = toolModules.map(module => module.definition);
+
+export function findTool(name: string): ToolModule | undefined {
+  return toolModules.find(module => module.definition.name === name);
+}
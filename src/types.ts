@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type Backend = 'sharp' | 'wasm-vips';
+
+export interface ImageContent {
+  type: 'image';
+  data: string;
+  mimeType: string;
+}
+
+// Structured result of a tool call. The CallTool handler adds duration_ms and
+// serializes it into the text content of the response.
+export interface ToolResult {
+  structuredContent: Record<string, unknown>;
+  image?: ImageContent;
+}
+
+// Per-call hooks for long-running tools, see progress.ts
+export interface ToolContext {
+  // Aborted when the client sends notifications/cancelled for the call
+  signal: AbortSignal;
+  // Send a progress notification; does nothing unless the client sent a progressToken
+  progress(progress: number, total?: number, message?: string): void;
+}
+
+// A tool exposed by the server: its MCP definition and implementation.
+// Arguments have already been validated against definition.inputSchema,
+// with declared defaults applied.
+export interface ToolModule {
+  definition: Tool;
+  // libvips operations called by the wasm-vips implementation, for tools that
+  // have one. image_capabilities reports the tool as falling back to Sharp
+  // when any of them is missing from the loaded build.
+  vipsOperations?: string[];
+  // Set on tools that process no images themselves (they only read metadata,
+  // encode stored pixels or manage handles), which run whatever the server
+  // backend is
+  imageFree?: boolean;
+  // The tool's Sharp operation on an already opened image, given the validated
+  // arguments. image_pipeline runs these as its steps.
+  applySharp?(image: sharp.Sharp, args: Record<string, any>): sharp.Sharp;
+  execute(args: Record<string, any>, context: ToolContext): Promise<ToolResult>;
+}
@@ -0,0 +1,89 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// Check a value against the subset of JSON Schema used by the tool definitions,
+// filling in declared defaults for missing object properties
+export function validateValue(schema: any, value: any, path: string, errors: string[]): any {
+  const field = path || 'arguments';
+
+  if (schema.type === 'object') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${field} must be an object`);
+      return value;
+    }
+    const result = { ...value };
+    for (const key of schema.required || []) {
+      if (result[key] === undefined) {
+        errors.push(`${path ? `${path}.` : ''}${key} is required`);
+      }
+    }
+    // Schemas that declare properties accept no others unless additionalProperties allows them
+    if (schema.properties && schema.additionalProperties !== true) {
+      for (const key of Object.keys(result)) {
+        if (!(key in schema.properties)) {
+          errors.push(`${path ? `${path}.` : ''}${key} is not a known argument`);
+        }
+      }
+    }
+    for (const [key, propertySchema] of Object.entries<any>(schema.properties || {})) {
+      if (result[key] === undefined && propertySchema.default !== undefined) {
+        result[key] = propertySchema.default;
+      }
+      if (result[key] !== undefined) {
+        result[key] = validateValue(propertySchema, result[key], path ? `${path}.${key}` : key, errors);
+      }
+    }
+    return result;
+  }
+
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) {
+      errors.push(`${field} must be an array`);
+      return value;
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${field} must have at least ${schema.minItems} items (got ${value.length})`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${field} must have at most ${schema.maxItems} items (got ${value.length})`);
+    }
+    return schema.items ? value.map((item, i) => validateValue(schema.items, item, `${field}[${i}]`, errors)) : value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${field} must be one of ${schema.enum.join(', ')} (got ${JSON.stringify(value)})`);
+    return value;
+  }
+
+  if (schema.type === 'number' || schema.type === 'integer') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number (got ${JSON.stringify(value)})`);
+      return value;
+    }
+    if (schema.type === 'integer' && !Number.isInteger(value)) {
+      errors.push(`${field} must be an integer (got ${value})`);
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${field} must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${field} must be <= ${schema.maximum} (got ${value})`);
+    }
+    return value;
+  }
+
+  if (schema.type && typeof value !== schema.type) {
+    errors.push(`${field} must be a ${schema.type} (got ${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+// Validate tool arguments against the tool's inputSchema and apply its defaults
+export function validateArguments(tool: Tool, args: Record<string, unknown> | undefined): Record<string, any> {
+  const errors: string[] = [];
+  const validated = validateValue(tool.inputSchema, args || {}, '', errors);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid arguments for ${tool.name}: ${errors.join('; ')}`);
+  }
+  return validated;
+}
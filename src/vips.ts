@@ -0,0 +1,17 @@
+import Vips from 'wasm-vips';
+import { log } from './logger.js';
+
+// Initialize wasm-vips
+export let vips: any = null;
+
+export async function initVips() {
+  if (!vips) {
+    // Emscripten prints to stdout by default, which would corrupt the stdio transport
+    vips = await Vips({
+      print: text => log('debug', text),
+      printErr: text => log('warning', text)
+    });
+    log('info', '🎨 Enhanced libvips MCP server (wasm-vips) initialized');
+  }
+  return vips;
+}